@@ -0,0 +1,189 @@
+import { EditorState } from '@codemirror/state';
+import { SyntaxNode } from '@lezer/common';
+import { getSyntaxTree } from './syntax';
+
+/**
+ * Fenced code block scanning and collapse-state identity.
+ *
+ * A block is identified by its info string and a hash of its code, so its
+ * collapse state survives blocks being added or removed around it and can be
+ * stored per file in plugin data.
+ */
+
+/**
+ * Fenced code block found in a document
+ * - info: the whole info string after the opening fence (e.g. `ts {collapsed}`)
+ * - language: first word of the info string
+ * - code: the body without the prefixes of an enclosing list item or blockquote
+ * - codeFrom: offset where the code starts
+ */
+export interface CodeBlock {
+	from: number;
+	to: number;
+	info: string;
+	language: string;
+	code: string;
+	codeFrom: number;
+}
+
+/**
+ * Display options from a fence info string such as
+ * `ts title="api.ts" {3-5} showLineNumbers`
+ * - highlightedLines: 1-based line numbers to highlight
+ */
+export interface CodeBlockOptions {
+	language: string;
+	title?: string;
+	highlightedLines: number[];
+	showLineNumbers: boolean;
+}
+
+/**
+ * Collapse defaults from the plugin settings
+ * - threshold: when collapsing by default, only blocks with more lines than
+ *   this are collapsed (0: every block)
+ */
+export interface CodeBlockCollapseSettings {
+	defaultState: 'expanded' | 'collapsed';
+	threshold: number;
+}
+
+// Longest line range accepted in `{start-end}`
+const MAX_HIGHLIGHT_RANGE = 10000;
+
+/**
+ * Code block of a `FencedCode` syntax node, or null if the fence is not closed
+ */
+export function getCodeBlock(state: EditorState, node: SyntaxNode): CodeBlock | null {
+	const marks = node.getChildren('CodeMark');
+	if (marks.length < 2) return null;
+
+	const infoNode = node.getChild('CodeInfo');
+	const info = infoNode ? state.sliceDoc(infoNode.from, infoNode.to).trim() : '';
+
+	// The body runs from the line after the opening fence to the line before
+	// the closing one. Inside a list item or blockquote, Lezer splits it into
+	// several CodeText nodes, so the lines are read from the document and the
+	// container prefix of the opening fence is removed from each of them.
+	const openLine = state.doc.lineAt(marks[0].from);
+	const closeLine = state.doc.lineAt(marks[marks.length - 1].from);
+	const prefix = state.sliceDoc(openLine.from, marks[0].from);
+	const quoteDepth = (prefix.match(/>/g) ?? []).length;
+	const indentWidth = prefix.replace(/^(?:\s*>\s?)*/, '').length;
+	const lines: string[] = [];
+	for (let number = openLine.number + 1; number < closeLine.number; number++) {
+		let line = state.doc.line(number).text;
+		for (let depth = 0; depth < quoteDepth; depth++) {
+			line = line.replace(/^\s*>\s?/, '');
+		}
+		lines.push(line.replace(new RegExp(`^ {0,${indentWidth}}`), ''));
+	}
+
+	return {
+		from: node.from,
+		to: node.to,
+		info,
+		language: parseInfoString(info).language,
+		code: lines.join('\n'),
+		codeFrom: openLine.number < closeLine.number - 1 ? openLine.to + 1 : marks[marks.length - 1].from,
+	};
+}
+
+/**
+ * Find the fenced code blocks of a document that overlap `from`-`to` (the
+ * whole document by default)
+ */
+export function findCodeBlocks(state: EditorState, from = 0, to = state.doc.length): CodeBlock[] {
+	const blocks: CodeBlock[] = [];
+	getSyntaxTree(state, to).iterate({
+		from,
+		to,
+		enter: node => {
+			if (node.name !== 'FencedCode') return;
+			const block = getCodeBlock(state, node.node);
+			if (block) blocks.push(block);
+			return false;
+		}
+	});
+	return blocks;
+}
+
+/**
+ * Parse the options of a fence info string. The language is the first word
+ * unless it is an attribute (`{...}` or `key=value`).
+ */
+export function parseInfoString(info: string): CodeBlockOptions {
+	const options: CodeBlockOptions = { language: '', highlightedLines: [], showLineNumbers: false };
+
+	const titleMatch = info.match(/\btitle=(?:"([^"]*)"|'([^']*)'|(\S+))/);
+	if (titleMatch) {
+		options.title = titleMatch[1] ?? titleMatch[2] ?? titleMatch[3];
+	}
+	const rest = titleMatch ? info.replace(titleMatch[0], ' ') : info;
+
+	const firstWord = rest.trim().split(/\s+/)[0] ?? '';
+	if (firstWord && !firstWord.startsWith('{') && !firstWord.includes('=')) {
+		options.language = firstWord.replace(/\{.*$/, '');
+	}
+
+	// {3-5} or {1,3-5}
+	const lines = new Set<number>();
+	for (const group of rest.matchAll(/\{([\d,\s-]+)\}/g)) {
+		for (const part of group[1].split(',')) {
+			const range = part.trim().match(/^(\d+)(?:-(\d+))?$/);
+			if (!range) continue;
+			const start = parseInt(range[1], 10);
+			// Ignore absurd ranges rather than looping over them
+			const end = Math.min(range[2] ? parseInt(range[2], 10) : start, start + MAX_HIGHLIGHT_RANGE);
+			for (let line = start; line <= end; line++) lines.add(line);
+		}
+	}
+	options.highlightedLines = Array.from(lines).sort((a, b) => a - b);
+	options.showLineNumbers = /(^|\s)showLineNumbers(\s|$)/.test(rest);
+
+	return options;
+}
+
+/**
+ * 32-bit FNV-1a hash as a hex string
+ */
+function hashString(text: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Stable identity of a code block: info string plus a hash of its code
+ */
+export function getCodeBlockKey(block: CodeBlock): string {
+	return `${block.info}#${hashString(block.code)}`;
+}
+
+/**
+ * Collapse state requested by a `{collapsed}` or `{expanded}` attribute in
+ * the info string, if any
+ */
+export function getCollapseAttribute(info: string): boolean | undefined {
+	if (/\{collapsed\}/.test(info)) return true;
+	if (/\{expanded\}/.test(info)) return false;
+	return undefined;
+}
+
+/**
+ * Whether a block starts collapsed: an explicit toggle wins, then the
+ * info string attribute, then the settings default
+ */
+export function isCodeBlockCollapsed(
+	block: CodeBlock, toggled: Map<string, boolean>, settings: CodeBlockCollapseSettings
+): boolean {
+	const stored = toggled.get(getCodeBlockKey(block));
+	if (stored !== undefined) return stored;
+	const attribute = getCollapseAttribute(block.info);
+	if (attribute !== undefined) return attribute;
+	if (settings.defaultState === 'expanded') return false;
+	return settings.threshold <= 0 || block.code.split('\n').length > settings.threshold;
+}
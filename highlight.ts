@@ -0,0 +1,150 @@
+import { loadPrism } from 'obsidian';
+
+/**
+ * Token-level syntax highlighting for fenced code blocks, using the Prism
+ * instance bundled with Obsidian (the same highlighter as reading view).
+ *
+ * Highlighting produces class ranges (`token keyword`, ...) so that the code
+ * block widget and the editor decorations share one tokenizer; colors come
+ * from styles.css and follow the view's dark/light theme.
+ */
+
+/**
+ * A highlighted range of code
+ * - classes: CSS classes for the range, e.g. `token keyword`
+ */
+export interface HighlightRange {
+	from: number;
+	to: number;
+	classes: string;
+}
+
+// Info string aliases mapped to Prism language names
+const LANGUAGE_ALIASES: Record<string, string> = {
+	ts: 'typescript',
+	js: 'javascript',
+	py: 'python',
+	sh: 'bash',
+	shell: 'bash',
+	zsh: 'bash',
+	console: 'bash',
+	yml: 'yaml',
+	jsonc: 'json',
+};
+
+/**
+ * The part of Prism used here: a token stream is plain strings and tokens,
+ * whose content is again a string, a token or a token stream
+ */
+interface PrismToken {
+	type: string;
+	content: string | PrismToken | Array<string | PrismToken>;
+	alias?: string | string[];
+}
+
+type PrismGrammar = Record<string, unknown>;
+
+interface Prism {
+	languages: Record<string, PrismGrammar | undefined>;
+	tokenize(code: string, grammar: PrismGrammar): Array<string | PrismToken>;
+}
+
+let prism: Prism | null = null;
+
+/**
+ * Load Prism once; code stays plain text if it cannot be loaded
+ */
+export async function loadHighlighter(): Promise<void> {
+	try {
+		prism = await loadPrism();
+	} catch (error) {
+		console.error('SurveyNote: failed to load Prism, code blocks will not be highlighted', error);
+	}
+}
+
+/**
+ * Prism language name for an info string language, or null if unsupported
+ */
+export function resolveLanguage(language: string): string | null {
+	const name = language.trim().toLowerCase();
+	const resolved = LANGUAGE_ALIASES[name] ?? name;
+	return prism && resolved && prism.languages[resolved] ? resolved : null;
+}
+
+/**
+ * Highlighted ranges of `code` (empty if the language is not supported)
+ */
+export function highlightCode(code: string, language: string): HighlightRange[] {
+	const resolved = resolveLanguage(language);
+	const grammar = resolved ? prism?.languages[resolved] : undefined;
+	if (!prism || !grammar) return [];
+
+	const ranges: HighlightRange[] = [];
+	const walk = (tokens: Array<string | PrismToken>, offset: number, parentClasses: string): number => {
+		for (const token of tokens) {
+			if (typeof token === 'string') {
+				// Plain text nested in a token keeps the token's classes
+				if (parentClasses && token.length > 0) {
+					ranges.push({ from: offset, to: offset + token.length, classes: `token ${parentClasses}` });
+				}
+				offset += token.length;
+				continue;
+			}
+			const aliases = Array.isArray(token.alias) ? token.alias : token.alias ? [token.alias] : [];
+			const classes = `${parentClasses} ${token.type} ${aliases.join(' ')}`.trim();
+			offset = walk(Array.isArray(token.content) ? token.content : [token.content], offset, classes);
+		}
+		return offset;
+	};
+	walk(prism.tokenize(code, grammar), 0, '');
+	return ranges;
+}
+
+/**
+ * Fill `el` with `code`, wrapping highlighted ranges in spans
+ */
+export function renderHighlightedCode(el: HTMLElement, code: string, language: string): void {
+	let pos = 0;
+	for (const range of highlightCode(code, language)) {
+		if (range.from > pos) el.appendText(code.substring(pos, range.from));
+		el.createSpan({ cls: range.classes, text: code.substring(range.from, range.to) });
+		pos = range.to;
+	}
+	if (pos < code.length) el.appendText(code.substring(pos));
+}
+
+/**
+ * Fill `el` with one element per line of `code`, optionally numbered, with
+ * the given 1-based lines marked as highlighted
+ */
+export function renderHighlightedLines(
+	el: HTMLElement, code: string, language: string, options: { lineNumbers: boolean, highlightedLines: number[] }
+): void {
+	const ranges = highlightCode(code, language);
+	const highlighted = new Set(options.highlightedLines);
+	let lineStart = 0;
+	code.split('\n').forEach((line, index) => {
+		const lineEnd = lineStart + line.length;
+		const lineEl = el.createDiv({ cls: 'code-line' });
+		if (highlighted.has(index + 1)) lineEl.addClass('is-highlighted');
+		if (options.lineNumbers) {
+			lineEl.createSpan({ cls: 'code-line-number', text: String(index + 1) });
+		}
+
+		const contentEl = lineEl.createSpan({ cls: 'code-line-content' });
+		let pos = lineStart;
+		for (const range of ranges) {
+			if (range.to <= lineStart || range.from >= lineEnd) continue;
+			const from = Math.max(range.from, lineStart);
+			const to = Math.min(range.to, lineEnd);
+			if (from > pos) contentEl.appendText(code.substring(pos, from));
+			contentEl.createSpan({ cls: range.classes, text: code.substring(from, to) });
+			pos = to;
+		}
+		if (pos < lineEnd) contentEl.appendText(code.substring(pos, lineEnd));
+		// Keep empty lines one line tall
+		if (line === '') contentEl.appendText('\n');
+
+		lineStart = lineEnd + 1;
+	});
+}
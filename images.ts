@@ -0,0 +1,112 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Display options of an image, written after its path:
+ * `![[image.png|300x200|center|caption=Figure 1]]` or
+ * `![alt](image.png|300x200|float-left)`. Options may come in any order.
+ */
+
+/**
+ * Where an image sits in the line: aligned on its own line, or floated with
+ * the following text wrapping around it
+ */
+export type ImageAlign = 'left' | 'center' | 'right' | 'float-left' | 'float-right';
+
+/**
+ * Parsed image options
+ * - alt: alternative text of an internal image (`![[image.png|alt text]]`)
+ */
+export interface ImageOptions {
+	width?: number;
+	height?: number;
+	align?: ImageAlign;
+	caption?: string;
+	alt?: string;
+}
+
+export const IMAGE_ALIGNS: ImageAlign[] = ['left', 'center', 'right', 'float-left', 'float-right'];
+
+// "300x200", "300" or "x200"
+const SIZE_REGEX = /^(\d+)?(?:x(\d+))?$/;
+const CAPTION_PREFIX = 'caption=';
+
+/**
+ * Parse the options after the image path (without the leading `|`)
+ */
+export function parseImageOptions(optionsStr: string): ImageOptions {
+	const options: ImageOptions = {};
+	if (!optionsStr) return options;
+
+	for (const rawPart of optionsStr.split('|')) {
+		const part = rawPart.trim();
+		if (!part) continue;
+
+		const sizeMatch = part.match(SIZE_REGEX);
+		if (sizeMatch) {
+			options.width = sizeMatch[1] ? parseInt(sizeMatch[1], 10) : undefined;
+			options.height = sizeMatch[2] ? parseInt(sizeMatch[2], 10) : undefined;
+		} else if ((IMAGE_ALIGNS as string[]).includes(part.toLowerCase())) {
+			options.align = part.toLowerCase() as ImageAlign;
+		} else if (part.toLowerCase().startsWith(CAPTION_PREFIX)) {
+			options.caption = part.substring(CAPTION_PREFIX.length).trim() || undefined;
+		} else if (options.alt === undefined) {
+			options.alt = part;
+		}
+	}
+	return options;
+}
+
+/**
+ * Options as written after the image path, each preceded by `|`
+ * (alt text, size, alignment, caption), or an empty string
+ */
+export function formatImageOptions(options: ImageOptions): string {
+	const parts: string[] = [];
+	if (options.alt) parts.push(options.alt);
+	if (options.width || options.height) {
+		parts.push(`${options.width ?? ''}${options.height ? `x${options.height}` : ''}`);
+	}
+	if (options.align) parts.push(options.align);
+	// `|` and `]` would end the option list
+	const caption = options.caption?.replace(/[|\]\n]/g, ' ').trim();
+	if (caption) parts.push(`${CAPTION_PREFIX}${caption}`);
+	return parts.map(part => `|${part}`).join('');
+}
+
+/**
+ * Dialog to edit the caption of an image
+ */
+export class ImageCaptionModal extends Modal {
+	constructor(app: App, private caption: string, private onSubmit: (caption: string) => void) {
+		super(app);
+	}
+
+	onOpen(): void {
+		this.titleEl.setText('キャプション');
+		let value = this.caption;
+		const submit = () => {
+			this.close();
+			this.onSubmit(value.trim());
+		};
+
+		new Setting(this.contentEl)
+			.setName('画像の下に表示するテキスト')
+			.addText(text => {
+				text.setValue(this.caption).onChange(newValue => value = newValue);
+				text.inputEl.addEventListener('keydown', event => {
+					if (event.key === 'Enter' && !event.isComposing) {
+						event.preventDefault();
+						submit();
+					}
+				});
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+
+		new Setting(this.contentEl)
+			.addButton(button => button.setButtonText('保存').setCta().onClick(submit));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
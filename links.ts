@@ -0,0 +1,219 @@
+import { App, TFile, prepareFuzzySearch, parseFrontMatterAliases, stripHeading } from 'obsidian';
+import { Completion, CompletionContext, CompletionResult, CompletionSource, pickedCompletion } from '@codemirror/autocomplete';
+import { EditorView } from '@codemirror/view';
+
+// Maximum number of files offered by the `[[` completion
+const MAX_FILE_OPTIONS = 50;
+
+/**
+ * Parts of an internal link `[[path#subpath|alias]]`
+ * - subpath: `#Heading`, `#Parent#Heading` or `#^block-id` (empty if none).
+ *   The short block form `Note^block-id` is normalized to `#^block-id`.
+ * - display: text shown for the link (the alias if there is one)
+ */
+export interface InternalLink {
+	path: string;
+	subpath: string;
+	alias?: string;
+	display: string;
+}
+
+const LINK_HEADING_REGEX = /^ {0,3}#{1,6}[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const LIST_ITEM_REGEX = /^\s*(?:[-*+]|\d+[.)])\s/;
+
+/**
+ * Split the inside of `[[...]]` into path, subpath and alias
+ */
+export function parseInternalLink(content: string): InternalLink {
+	const pipe = content.indexOf('|');
+	const target = pipe === -1 ? content : content.substring(0, pipe);
+	const alias = pipe === -1 ? undefined : content.substring(pipe + 1).trim() || undefined;
+
+	let path = target;
+	let subpath = '';
+	const hash = target.indexOf('#');
+	const caret = target.indexOf('^');
+	if (hash !== -1) {
+		path = target.substring(0, hash);
+		subpath = target.substring(hash);
+	} else if (caret !== -1) {
+		path = target.substring(0, caret);
+		subpath = '#' + target.substring(caret);
+	}
+	path = path.trim();
+	subpath = subpath.trim();
+
+	const subpathText = subpath.substring(1).split('#').join(' > ');
+	const display = alias ?? (path && subpathText ? `${path} > ${subpathText}` : path || subpathText);
+	return { path, subpath, alias, display };
+}
+
+/**
+ * Index of the line a subpath points to in `text` (a heading or a line that
+ * ends with the block id), or -1 if it is not found
+ */
+export function findSubpathLine(text: string, subpath: string): number {
+	const lines = text.split('\n');
+	if (subpath.startsWith('#^')) {
+		const id = subpath.substring(2);
+		return lines.findIndex(line => line.trimEnd().endsWith(`^${id}`) &&
+			/(^|\s)\^[\w-]+$/.test(line.trimEnd()));
+	}
+
+	const headings = subpath.split('#').filter(part => part !== '');
+	const heading = headings[headings.length - 1];
+	if (!heading) return -1;
+	return lines.findIndex(line => {
+		const match = line.match(LINK_HEADING_REGEX);
+		return match !== null && stripHeading(match[1]) === stripHeading(heading);
+	});
+}
+
+/**
+ * Part of `text` a subpath points to, or null if it is not found: a heading
+ * with its content up to the next heading of the same or a higher level, or
+ * the paragraph (or list item) that ends with the block id, without the id
+ */
+export function extractSubpath(text: string, subpath: string): string | null {
+	const line = findSubpathLine(text, subpath);
+	if (line === -1) return null;
+	const lines = text.split('\n');
+
+	if (subpath.startsWith('#^')) {
+		// A list item stands alone; a paragraph starts after a blank line or heading
+		let start = line;
+		while (start > 0 && !LIST_ITEM_REGEX.test(lines[start]) &&
+			lines[start - 1].trim() !== '' && headingLevel(lines[start - 1]) === 0) {
+			start--;
+		}
+		return lines.slice(start, line + 1).join('\n').replace(/\s+\^[\w-]+\s*$/, '');
+	}
+
+	const level = headingLevel(lines[line]);
+	let end = line + 1;
+	while (end < lines.length) {
+		const nextLevel = headingLevel(lines[end]);
+		if (nextLevel > 0 && nextLevel <= level) break;
+		end++;
+	}
+	return lines.slice(line, end).join('\n').trimEnd();
+}
+
+/**
+ * Level of an ATX heading line (0 if the line is not a heading)
+ */
+function headingLevel(line: string): number {
+	const match = line.match(/^ {0,3}(#{1,6})(?:[ \t]|$)/);
+	return match ? match[1].length : 0;
+}
+
+/**
+ * Completion option that replaces the typed link target with `linktext]]`
+ */
+function linkOption(label: string, linktext: string, detail?: string, type?: string): Completion {
+	return {
+		label,
+		detail,
+		type,
+		apply: (view: EditorView, completion: Completion, from: number, to: number) => {
+			// Replace closing brackets that are already there instead of doubling them
+			const closing = view.state.sliceDoc(to, to + 2) === ']]' ? 2 : 0;
+			const insert = `${linktext}]]`;
+			view.dispatch({
+				changes: { from, to: to + closing, insert },
+				selection: { anchor: from + insert.length },
+				annotations: pickedCompletion.of(completion),
+				userEvent: 'input.complete'
+			});
+		}
+	};
+}
+
+/**
+ * Headings or block ids of `file` matching `query`
+ */
+function getSubpathOptions(app: App, file: TFile, filePart: string, query: string, blocks: boolean): Completion[] {
+	const cache = app.metadataCache.getFileCache(file);
+	if (!cache) return [];
+
+	const search = prepareFuzzySearch(query);
+	const candidates = blocks
+		? Object.values(cache.blocks ?? {}).map(block => ({ text: block.id, linktext: `${filePart}#^${block.id}`, type: 'block' }))
+		: (cache.headings ?? []).map(heading => ({ text: heading.heading, linktext: `${filePart}#${heading.heading}`, type: 'heading' }));
+
+	return candidates
+		.map(candidate => ({ candidate, match: query ? search(candidate.text) : { score: 0 } }))
+		.filter(item => item.match !== null)
+		.sort((a, b) => (b.match?.score ?? 0) - (a.match?.score ?? 0))
+		.map(({ candidate }) => linkOption(candidate.text, candidate.linktext, undefined, candidate.type));
+}
+
+/**
+ * Files (and their aliases) matching `query`: recently opened files first,
+ * then by fuzzy match score
+ */
+function getFileOptions(app: App, sourcePath: string, query: string): Completion[] {
+	const search = prepareFuzzySearch(query);
+	const recent = app.workspace.getLastOpenFiles();
+	const rank = (file: TFile) => {
+		const index = recent.indexOf(file.path);
+		return index === -1 ? recent.length : index;
+	};
+
+	const matches: Array<{ option: Completion, rank: number, score: number }> = [];
+	for (const file of app.vault.getFiles()) {
+		const linktext = app.metadataCache.fileToLinktext(file, sourcePath, true);
+		const name = file.extension === 'md' ? file.basename : file.name;
+		const match = query ? search(file.path) : { score: 0 };
+		if (match) {
+			const folder = file.parent?.isRoot() ? undefined : file.parent?.path;
+			matches.push({ option: linkOption(name, linktext, folder, 'file'), rank: rank(file), score: match.score });
+		}
+
+		const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+		for (const alias of parseFrontMatterAliases(frontmatter ?? null) ?? []) {
+			const aliasMatch = query ? search(alias) : null;
+			if (aliasMatch) {
+				matches.push({ option: linkOption(alias, `${linktext}|${alias}`, name, 'alias'), rank: rank(file), score: aliasMatch.score });
+			}
+		}
+	}
+
+	return matches
+		.sort((a, b) => (a.rank - b.rank) || (b.score - a.score) || a.option.label.localeCompare(b.option.label))
+		.slice(0, MAX_FILE_OPTIONS)
+		.map(item => item.option);
+}
+
+/**
+ * Completion source for internal links: typing `[[` lists vault files,
+ * `[[Note#` lists headings and `[[Note^` / `[[Note#^` lists block ids.
+ * Completions insert `Note`, `Note#Heading`, `Note#^block` or `Note|alias`
+ * followed by `]]`.
+ */
+export function createLinkCompletionSource(app: App, getSourcePath: () => string): CompletionSource {
+	return (context: CompletionContext): CompletionResult | null => {
+		const before = context.matchBefore(/\[\[[^[\]|\n]*$/);
+		if (!before) return null;
+
+		const from = before.from + 2;
+		const query = before.text.substring(2);
+		const sourcePath = getSourcePath();
+
+		const subpathMatch = query.match(/^([^#^]*)(#\^|#|\^)(.*)$/);
+		if (subpathMatch) {
+			const [, filePart, separator, subpathQuery] = subpathMatch;
+			const file = filePart
+				? app.metadataCache.getFirstLinkpathDest(filePart, sourcePath)
+				: app.vault.getAbstractFileByPath(sourcePath);
+			if (!(file instanceof TFile)) return null;
+			return {
+				from,
+				options: getSubpathOptions(app, file, filePart, subpathQuery, separator !== '#'),
+				filter: false
+			};
+		}
+
+		return { from, options: getFileOptions(app, sourcePath, query), filter: false };
+	};
+}
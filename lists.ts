@@ -0,0 +1,397 @@
+/**
+ * Helpers for ordered (numbered) Markdown lists, list fold state and the
+ * outliner operations on list items with their subtrees.
+ *
+ * Numbers are computed per indentation level: consecutive ordered items at the
+ * same level count up from the first item's number, and a level restarts when
+ * the list returns to a shallower item or is interrupted by other text.
+ */
+
+// `1. ` or `1) ` at the start of a line (checkbox items are handled elsewhere)
+export const ORDERED_ITEM_REGEX = /^([ \t]*)(\d+)([.)])( +)/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d+[.)])( +|$)/;
+
+// Indentation added by one nesting level
+export const LIST_INDENT = '    ';
+
+/**
+ * Width of an indentation string (a tab counts as 4 columns)
+ */
+export function getIndentWidth(indent: string): number {
+	return indent.replace(/\t/g, LIST_INDENT).length;
+}
+
+/**
+ * Whether a line ends every list above it: text that is neither blank, a
+ * list item nor indented (indented text continues an item)
+ */
+export function endsLists(line: string): boolean {
+	return line.trim() !== '' && !LIST_ITEM_REGEX.test(line) && !/^\s/.test(line);
+}
+
+/**
+ * Expected number of every ordered item, keyed by line index. Lines in
+ * `codeLines` (by index) are code: they are never items, and like other text
+ * they end the lists they are not indented into.
+ */
+export function computeOrderedNumbers(lines: string[], codeLines: ReadonlySet<number> = new Set()): Map<number, number> {
+	const numbers = new Map<number, number>();
+	// Last number used at each indentation width (undefined: no ordered list open)
+	const counters = new Map<number, number>();
+
+	lines.forEach((line, index) => {
+		if (line.trim() === '') return;
+
+		const listMatch = codeLines.has(index) ? null : line.match(LIST_ITEM_REGEX);
+		const width = getIndentWidth((listMatch ? listMatch[1] : line.match(/^\s*/)?.[0]) ?? '');
+
+		// Deeper levels restart once the list comes back to this level
+		for (const key of Array.from(counters.keys())) {
+			if (key > width || (!listMatch && key >= width)) {
+				counters.delete(key);
+			}
+		}
+		if (!listMatch) return;
+
+		const orderedMatch = line.match(ORDERED_ITEM_REGEX);
+		if (!orderedMatch) {
+			// A bullet at the same level ends the numbered sequence
+			counters.delete(width);
+			return;
+		}
+
+		const previous = counters.get(width);
+		const number = previous === undefined ? parseInt(orderedMatch[2], 10) : previous + 1;
+		counters.set(width, number);
+		numbers.set(index, number);
+	});
+
+	return numbers;
+}
+
+/**
+ * Changes that rewrite item numbers which differ from the expected ones,
+ * with offsets from the start of the first line. `lines` should start at the
+ * beginning of a list (see endsLists); code lines are left as they are.
+ */
+export function renumberOrderedLists(lines: string[], codeLines: ReadonlySet<number> = new Set()): Array<{ from: number, to: number, insert: string }> {
+	const numbers = computeOrderedNumbers(lines, codeLines);
+	const changes: Array<{ from: number, to: number, insert: string }> = [];
+
+	let lineStart = 0;
+	lines.forEach((line, index) => {
+		const expected = numbers.get(index);
+		const match = expected !== undefined ? line.match(ORDERED_ITEM_REGEX) : null;
+		if (match && parseInt(match[2], 10) !== expected) {
+			const from = lineStart + match[1].length;
+			changes.push({ from, to: from + match[2].length, insert: String(expected) });
+		}
+		lineStart += line.length + 1;
+	});
+
+	return changes;
+}
+
+/**
+ * Number an ordered item at `lineIndex` should get when moved to an
+ * indentation of `width`: the next number after the previous sibling at that
+ * level, or 1 when it starts a new (nested) list
+ */
+export function getNumberForLevel(lines: string[], lineIndex: number, width: number): number {
+	for (let i = lineIndex - 1; i >= 0; i--) {
+		const line = lines[i];
+		if (line.trim() === '') continue;
+
+		const listMatch = line.match(LIST_ITEM_REGEX);
+		const lineWidth = getIndentWidth((listMatch ? listMatch[1] : line.match(/^\s*/)?.[0]) ?? '');
+		if (!listMatch) {
+			if (lineWidth <= width) return 1;
+			continue;
+		}
+		if (lineWidth < width) return 1;
+		if (lineWidth === width) {
+			const orderedMatch = line.match(ORDERED_ITEM_REGEX);
+			return orderedMatch ? parseInt(orderedMatch[2], 10) + 1 : 1;
+		}
+	}
+	return 1;
+}
+
+// Fold markers that earlier versions wrote into notes (fold state now lives in plugin data)
+const LIST_FOLD_MARKER_REGEX = /<!--(?:COLLAPSED|HIDDEN)-->/g;
+// Fence lines of code blocks, also inside list items
+const FENCE_LINE_REGEX = /^\s*(```|~~~)/;
+
+/**
+ * Text of a list item without its indentation, marker and checkbox,
+ * or null if the line is not a list item
+ */
+function getListItemText(line: string): string | null {
+	const match = line.match(LIST_ITEM_REGEX);
+	if (!match) return null;
+	return line.substring(match[0].length).replace(/^\[.\] /, '').trim();
+}
+
+/**
+ * Anchors of list items for storing their fold state: the item text and the
+ * number of earlier items with the same text (`text#n`), so that the state
+ * stays attached when lines are added or removed elsewhere in the section
+ */
+export function getListFoldAnchors(lines: string[], lineIndexes: number[]): string[] {
+	const wanted = new Set(lineIndexes);
+	const counts = new Map<string, number>();
+	const anchors: string[] = [];
+	lines.forEach((line, index) => {
+		const text = getListItemText(line);
+		if (text === null) return;
+		const count = counts.get(text) ?? 0;
+		counts.set(text, count + 1);
+		if (wanted.has(index)) anchors.push(`${text}#${count}`);
+	});
+	return anchors;
+}
+
+/**
+ * Line indexes of the list items that `anchors` point to (anchors whose item
+ * no longer exists are dropped)
+ */
+export function resolveListFoldAnchors(lines: string[], anchors: string[]): number[] {
+	const wanted = new Set(anchors);
+	const counts = new Map<string, number>();
+	const lineIndexes: number[] = [];
+	lines.forEach((line, index) => {
+		const text = getListItemText(line);
+		if (text === null) return;
+		const count = counts.get(text) ?? 0;
+		counts.set(text, count + 1);
+		if (wanted.has(`${text}#${count}`)) lineIndexes.push(index);
+	});
+	return lineIndexes;
+}
+
+/**
+ * Whether a note still contains fold markers of earlier versions
+ */
+export function hasListFoldMarkers(text: string): boolean {
+	return text.includes('<!--COLLAPSED-->') || text.includes('<!--HIDDEN-->');
+}
+
+/**
+ * Remove the fold markers of earlier versions from `text`, returning the
+ * line indexes of the items that were marked as collapsed. Markers inside
+ * fenced code are text and stay.
+ */
+export function stripListFoldMarkers(text: string): { text: string, collapsedLines: number[] } {
+	const collapsedLines: number[] = [];
+	let fence: string | null = null;
+	const lines = text.split('\n').map((line, index) => {
+		const fenceMatch = line.match(FENCE_LINE_REGEX);
+		if (fenceMatch) {
+			if (fence === null) {
+				fence = fenceMatch[1];
+			} else if (fence === fenceMatch[1]) {
+				fence = null;
+			}
+			return line;
+		}
+		if (fence !== null) return line;
+		if (line.includes('<!--COLLAPSED-->')) collapsedLines.push(index);
+		return line.replace(LIST_FOLD_MARKER_REGEX, '');
+	});
+	return { text: lines.join('\n'), collapsedLines };
+}
+
+/**
+ * Outliner operations on the list item at the cursor together with its
+ * subtree (the lines indented below it)
+ */
+export type OutlineOperation = 'outdent' | 'moveUp' | 'moveDown' | 'duplicate' | 'delete' | 'selectSubtree';
+
+/**
+ * Commands registered for the outliner operations
+ */
+export const OUTLINE_COMMANDS: Array<{ id: string, name: string, operation: OutlineOperation }> = [
+	{ id: 'list-outdent', name: 'リスト: 子項目ごとアウトデント', operation: 'outdent' },
+	{ id: 'list-move-item-up', name: 'リスト: 子項目ごと上へ移動', operation: 'moveUp' },
+	{ id: 'list-move-item-down', name: 'リスト: 子項目ごと下へ移動', operation: 'moveDown' },
+	{ id: 'list-duplicate-item', name: 'リスト: 子項目ごと複製', operation: 'duplicate' },
+	{ id: 'list-delete-item', name: 'リスト: 子項目ごと削除', operation: 'delete' },
+	{ id: 'list-select-item', name: 'リスト: 子項目ごと選択', operation: 'selectSubtree' },
+];
+
+/**
+ * Lines of a list item and its subtree (`end` is exclusive, trailing blank
+ * lines are not included)
+ */
+export interface ListItemRange {
+	start: number;
+	end: number;
+}
+
+/**
+ * Result of an outliner operation: lines `from`-`to` (exclusive) are replaced
+ * by `lines`, and `sources` gives the original index of every new line so the
+ * cursor and fold state can follow the lines that moved
+ */
+export interface OutlineEdit {
+	from: number;
+	to: number;
+	lines: string[];
+	sources: number[];
+}
+
+function getLineIndentWidth(line: string): number {
+	return getIndentWidth(line.match(/^[ \t]*/)?.[0] ?? '');
+}
+
+function getSubtreeEnd(lines: string[], index: number): number {
+	const width = getLineIndentWidth(lines[index]);
+	let end = index + 1;
+	for (let i = index + 1; i < lines.length; i++) {
+		if (lines[i].trim() === '') continue;
+		if (getLineIndentWidth(lines[i]) <= width) break;
+		end = i + 1;
+	}
+	return end;
+}
+
+function getItemRange(lines: string[], index: number): ListItemRange {
+	return { start: index, end: getSubtreeEnd(lines, index) };
+}
+
+/**
+ * Innermost list item whose subtree contains line `index` (the item line or
+ * a line below it), or null outside of lists
+ */
+export function getListItemRange(lines: string[], index: number): ListItemRange | null {
+	for (let i = index; i >= 0; i--) {
+		const line = lines[i];
+		if (LIST_ITEM_REGEX.test(line)) {
+			const item = getItemRange(lines, i);
+			if (item.end > index) return item;
+		} else if (line.trim() !== '' && getLineIndentWidth(line) === 0) {
+			// Text that is not indented ends the list
+			return null;
+		}
+	}
+	return null;
+}
+
+/**
+ * List item that `item` is nested in, or null for a top-level item
+ */
+export function getParentListItem(lines: string[], item: ListItemRange): ListItemRange | null {
+	const width = getLineIndentWidth(lines[item.start]);
+	for (let i = item.start - 1; i >= 0; i--) {
+		const line = lines[i];
+		if (line.trim() === '') continue;
+		const lineWidth = getLineIndentWidth(line);
+		if (lineWidth >= width) continue;
+		if (LIST_ITEM_REGEX.test(line)) return getItemRange(lines, i);
+		// Continuation text of an outer item, or the end of the list
+		if (lineWidth === 0) return null;
+	}
+	return null;
+}
+
+/**
+ * Item at the same level right before `item` (blank lines aside), or null
+ * for the first child
+ */
+function getPreviousSibling(lines: string[], item: ListItemRange): ListItemRange | null {
+	const width = getLineIndentWidth(lines[item.start]);
+	for (let i = item.start - 1; i >= 0; i--) {
+		const line = lines[i];
+		if (line.trim() === '') continue;
+		const lineWidth = getLineIndentWidth(line);
+		// Deeper lines belong to the subtree of the sibling
+		if (lineWidth > width) continue;
+		return lineWidth === width && LIST_ITEM_REGEX.test(line) ? getItemRange(lines, i) : null;
+	}
+	return null;
+}
+
+/**
+ * Item at the same level right after `item` (blank lines aside), or null for
+ * the last child
+ */
+function getNextSibling(lines: string[], item: ListItemRange): ListItemRange | null {
+	const width = getLineIndentWidth(lines[item.start]);
+	for (let i = item.end; i < lines.length; i++) {
+		const line = lines[i];
+		if (line.trim() === '') continue;
+		return getLineIndentWidth(line) === width && LIST_ITEM_REGEX.test(line) ? getItemRange(lines, i) : null;
+	}
+	return null;
+}
+
+/**
+ * `line` with `width` columns of indentation removed (a tab counts as 4)
+ */
+function removeIndent(line: string, width: number): string {
+	let removed = 0;
+	let index = 0;
+	while (removed < width && index < line.length && (line[index] === ' ' || line[index] === '\t')) {
+		removed += line[index] === '\t' ? LIST_INDENT.length : 1;
+		index++;
+	}
+	return line.substring(index);
+}
+
+function range(from: number, to: number): number[] {
+	return Array.from({ length: to - from }, (_, i) => from + i);
+}
+
+/**
+ * Apply an outliner edit to the list item whose subtree contains line
+ * `index`, or null if there is nothing to do (no item, a top-level item
+ * outdented, no sibling to move past)
+ * - outdent: the item and its subtree move one level out and follow their
+ *   former parent (after the siblings that came after the item)
+ * - moveUp / moveDown: the item and its subtree swap places with the previous / next sibling
+ * - duplicate: a copy of the item and its subtree is inserted after it
+ * - delete: the item and its subtree are removed
+ */
+export function applyOutlineOperation(
+	lines: string[], index: number, operation: Exclude<OutlineOperation, 'selectSubtree'>
+): OutlineEdit | null {
+	const item = getListItemRange(lines, index);
+	if (!item) return null;
+	const itemLines = range(item.start, item.end);
+
+	switch (operation) {
+		case 'outdent': {
+			const width = getLineIndentWidth(lines[item.start]);
+			if (width === 0) return null;
+			const parent = getParentListItem(lines, item);
+			if (!parent) {
+				return { from: item.start, to: item.end, lines: itemLines.map(i => removeIndent(lines[i], width)), sources: itemLines };
+			}
+			// The item follows its parent, after the siblings that came after it
+			const delta = width - getLineIndentWidth(lines[parent.start]);
+			const siblings = range(item.end, parent.end);
+			return {
+				from: item.start,
+				to: parent.end,
+				lines: [...siblings.map(i => lines[i]), ...itemLines.map(i => removeIndent(lines[i], delta))],
+				sources: [...siblings, ...itemLines]
+			};
+		}
+		case 'moveUp': {
+			const previous = getPreviousSibling(lines, item);
+			if (!previous) return null;
+			const sources = [...itemLines, ...range(previous.end, item.start), ...range(previous.start, previous.end)];
+			return { from: previous.start, to: item.end, lines: sources.map(i => lines[i]), sources };
+		}
+		case 'moveDown': {
+			const next = getNextSibling(lines, item);
+			if (!next) return null;
+			const sources = [...range(next.start, next.end), ...range(item.end, next.start), ...itemLines];
+			return { from: item.start, to: next.end, lines: sources.map(i => lines[i]), sources };
+		}
+		case 'duplicate':
+			return { from: item.end, to: item.end, lines: itemLines.map(i => lines[i]), sources: itemLines };
+		case 'delete':
+			return { from: item.start, to: item.end, lines: [], sources: [] };
+	}
+}
@@ -1,5 +1,13 @@
-import { App, Plugin, PluginSettingTab, Setting, MarkdownView, WorkspaceLeaf, addIcon } from 'obsidian';
-import { SurveyNoteView, VIEW_TYPE_SURVEYNOTE } from './view';
+import { App, Plugin, PluginSettingTab, Setting, MarkdownView, WorkspaceLeaf, addIcon, loadMathJax } from 'obsidian';
+import { SurveyNoteView, VIEW_TYPE_SURVEYNOTE, getNoteSections } from './view';
+import { SectionConfig, DEFAULT_SECTIONS, GRID_COLUMNS, cloneSections, getOrderedSections, normalizeOrder, validateSections } from './sections';
+import { NoteTemplate, DEFAULT_TEMPLATES, TEMPLATE_FRONTMATTER_KEY, cloneTemplates, validateTemplates } from './templates';
+import { TABLE_COMMANDS } from './tables';
+import { loadHighlighter } from './highlight';
+import { CodeBlockCollapseSettings } from './codeblocks';
+import { parseNote, updateSections } from './parser';
+import { OUTLINE_COMMANDS, getListFoldAnchors, hasListFoldMarkers, stripListFoldMarkers } from './lists';
+import { DEFAULT_TASK_CYCLE, TASK_STATES } from './tasks';
 
 // Add custom icon for the SurveyNote view
 addIcon('surveynote-icon', `<svg xmlns="http://www.w3.org/2000/svg" width="100" height="100" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="lucide lucide-layout-grid"><rect width="18" height="18" x="3" y="3" rx="2"/><path d="M3 9h18"/><path d="M9 21V9"/></svg>`);
@@ -10,6 +18,15 @@ addIcon('surveynote-icon', `<svg xmlns="http://www.w3.org/2000/svg" width="100"
 interface SurveyNotePluginSettings {
 	theme: 'auto' | 'dark' | 'light';
 	fontSize: number;
+	sections: SectionConfig[];
+	templates: NoteTemplate[];
+	codeBlockDefault: 'expanded' | 'collapsed';
+	// Collapse only blocks longer than this many lines (0: all blocks)
+	codeBlockCollapseThreshold: number;
+	// Checkbox states a click cycles through, e.g. "[ ] [/] [x]"
+	taskCycle: string;
+	// Check a parent task when all its subtasks are done and uncheck it when one is reopened
+	taskPropagation: boolean;
 }
 
 /**
@@ -18,6 +35,12 @@ interface SurveyNotePluginSettings {
 const DEFAULT_SETTINGS: SurveyNotePluginSettings = {
 	theme: 'auto',
 	fontSize: 16,
+	sections: DEFAULT_SECTIONS,
+	templates: DEFAULT_TEMPLATES,
+	codeBlockDefault: 'collapsed',
+	codeBlockCollapseThreshold: 0,
+	taskCycle: DEFAULT_TASK_CYCLE,
+	taskPropagation: true,
 }
 
 /**
@@ -25,6 +48,12 @@ const DEFAULT_SETTINGS: SurveyNotePluginSettings = {
  */
 export default class SurveyNotePlugin extends Plugin {
 	settings: SurveyNotePluginSettings;
+	// Code block collapse states toggled by the user, keyed by file path and block key
+	codeBlockStates: Record<string, Record<string, boolean>> = {};
+	// Folded list items, keyed by file path and section name (see getListFoldAnchors)
+	listFoldStates: Record<string, Record<string, string[]>> = {};
+	// Whether the `<!--COLLAPSED-->` markers of earlier versions were removed from the vault
+	private listFoldMarkersMigrated = false;
 	private viewedFiles: Set<string> = new Set();
 	private manualViewSwitch: boolean = false;
 
@@ -34,6 +63,9 @@ export default class SurveyNotePlugin extends Plugin {
 	async onload() {
 		// Load user settings
 		await this.loadSettings();
+		// Load the code highlighter and MathJax before any view renders code blocks or formulas
+		await loadHighlighter();
+		await loadMathJax();
 
 		// Register the custom SurveyNote view
 		this.registerView(
@@ -41,6 +73,12 @@ export default class SurveyNotePlugin extends Plugin {
 			(leaf) => new SurveyNoteView(leaf, this)
 		);
 
+		// Let the Page preview plugin show previews for links in SurveyNote
+		this.registerHoverLinkSource(VIEW_TYPE_SURVEYNOTE, {
+			display: 'SurveyNote',
+			defaultMod: true,
+		});
+
 		// Add ribbon icon for easy view switching
 		this.addRibbonIcon('surveynote-icon', 'SurveyNote表示切り替え', (evt: MouseEvent) => {
 			this.toggleView();
@@ -87,6 +125,30 @@ export default class SurveyNotePlugin extends Plugin {
 			}
 		});
 
+		// Commands: Edit the table at the cursor of the focused section
+		for (const command of TABLE_COMMANDS) {
+			this.addCommand({
+				id: command.id,
+				name: command.name,
+				checkCallback: (checking: boolean) => {
+					const view = this.app.workspace.getActiveViewOfType(SurveyNoteView);
+					return view ? view.runTableCommand(command.operation, checking) : false;
+				}
+			});
+		}
+
+		// Commands: Outliner operations on the list item at the cursor of the focused section
+		for (const command of OUTLINE_COMMANDS) {
+			this.addCommand({
+				id: command.id,
+				name: command.name,
+				checkCallback: (checking: boolean) => {
+					const view = this.app.workspace.getActiveViewOfType(SurveyNoteView);
+					return view ? view.runOutlineCommand(command.operation, checking) : false;
+				}
+			});
+		}
+
 		// Add settings tab
 		this.addSettingTab(new SurveyNoteSettingTab(this.app, this));
 
@@ -115,6 +177,31 @@ export default class SurveyNotePlugin extends Plugin {
 			})
 		);
 
+		// Keep stored fold states attached to renamed files
+		this.registerEvent(
+			this.app.vault.on('rename', async (file, oldPath) => {
+				if (this.codeBlockStates[oldPath] || this.listFoldStates[oldPath]) {
+					this.setFoldStates(file.path, this.codeBlockStates[oldPath] ?? {}, this.listFoldStates[oldPath] ?? {});
+					this.setFoldStates(oldPath, {}, {});
+					await this.savePluginData();
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('delete', async (file) => {
+				if (this.codeBlockStates[file.path] || this.listFoldStates[file.path]) {
+					await this.saveFoldStates(file.path, {}, {});
+				}
+			})
+		);
+
+		// Move list fold markers written by earlier versions into plugin data
+		this.app.workspace.onLayoutReady(() => {
+			this.migrateListFoldMarkers().catch(error => {
+				console.error('SurveyNote: failed to migrate list fold markers', error);
+			});
+		});
+
 		// Listen for file open events to auto-switch to SurveyNote view
 		this.registerEvent(
 			this.app.workspace.on('file-open', (file) => {
@@ -170,14 +257,21 @@ export default class SurveyNotePlugin extends Plugin {
 	 * Load plugin settings from storage
 	 */
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const { codeBlockStates, listFoldStates, listFoldMarkersMigrated, ...settings } = await this.loadData() ?? {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+		this.codeBlockStates = codeBlockStates ?? {};
+		this.listFoldStates = listFoldStates ?? {};
+		this.listFoldMarkersMigrated = listFoldMarkersMigrated ?? false;
+		// Copy the schemas so that edits in the settings tab never touch the defaults
+		this.settings.sections = cloneSections(this.settings.sections);
+		this.settings.templates = cloneTemplates(this.settings.templates);
 	}
 
 	/**
 	 * Save plugin settings to storage and update active views
 	 */
 	async saveSettings() {
-		await this.saveData(this.settings);
+		await this.savePluginData();
 		// Re-apply styles to open views when settings change
 		this.app.workspace.getLeavesOfType(VIEW_TYPE_SURVEYNOTE).forEach(leaf => {
 			if (leaf.view instanceof SurveyNoteView) {
@@ -186,6 +280,106 @@ export default class SurveyNotePlugin extends Plugin {
 		});
 	}
 
+	/**
+	 * Collapse defaults for code blocks
+	 */
+	getCodeBlockCollapseSettings(): CodeBlockCollapseSettings {
+		return {
+			defaultState: this.settings.codeBlockDefault,
+			threshold: this.settings.codeBlockCollapseThreshold,
+		};
+	}
+
+	/**
+	 * Store the toggled code block states and the folded list items of a file
+	 */
+	async saveFoldStates(path: string, codeBlockStates: Record<string, boolean>, listFoldStates: Record<string, string[]>) {
+		this.setFoldStates(path, codeBlockStates, listFoldStates);
+		await this.savePluginData();
+	}
+
+	/**
+	 * Update the fold states of a file in memory (empty states remove the file)
+	 */
+	private setFoldStates(path: string, codeBlockStates: Record<string, boolean>, listFoldStates: Record<string, string[]>) {
+		if (Object.keys(codeBlockStates).length > 0) {
+			this.codeBlockStates[path] = codeBlockStates;
+		} else {
+			delete this.codeBlockStates[path];
+		}
+		if (Object.keys(listFoldStates).length > 0) {
+			this.listFoldStates[path] = listFoldStates;
+		} else {
+			delete this.listFoldStates[path];
+		}
+	}
+
+	/**
+	 * Settings and per-file states as stored in data.json
+	 */
+	private async savePluginData() {
+		await this.saveData({
+			...this.settings,
+			codeBlockStates: this.codeBlockStates,
+			listFoldStates: this.listFoldStates,
+			listFoldMarkersMigrated: this.listFoldMarkersMigrated,
+		});
+	}
+
+	/**
+	 * One-time migration: earlier versions folded list items by writing
+	 * `<!--COLLAPSED-->` and `<!--HIDDEN-->` into survey notes. The folds are
+	 * moved into plugin data and the markers are removed from the section
+	 * bodies (outside fenced code).
+	 */
+	private async migrateListFoldMarkers() {
+		if (this.listFoldMarkersMigrated) return;
+
+		let migrated = false;
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!this.app.metadataCache.getFileCache(file)?.frontmatter?.['survey-note-view']) continue;
+			const content = await this.app.vault.cachedRead(file);
+			if (!hasListFoldMarkers(content)) continue;
+
+			const names = getNoteSections(this, file).map(section => section.name);
+			const folds: Record<string, string[]> = {};
+			await this.app.vault.process(file, data => {
+				// Only the section bodies: markers in the rest of the note are the user's text
+				const note = parseNote(data, names);
+				const cores: Record<string, string> = {};
+				for (const section of note.sections) {
+					const { text, collapsedLines } = stripListFoldMarkers(section.core);
+					cores[section.name] = text;
+					const anchors = getListFoldAnchors(text.split('\n'), collapsedLines);
+					if (anchors.length > 0) folds[section.name] = anchors;
+				}
+				return updateSections(note, cores, names);
+			});
+			if (Object.keys(folds).length > 0) {
+				this.listFoldStates[file.path] = { ...this.listFoldStates[file.path], ...folds };
+			}
+			migrated = true;
+		}
+
+		this.listFoldMarkersMigrated = true;
+		await this.savePluginData();
+		// Open views read the cleaned files and the migrated folds again
+		if (migrated) {
+			await this.refreshViews();
+		}
+	}
+
+	/**
+	 * Re-render open SurveyNote views (e.g. after the section schema changed)
+	 */
+	async refreshViews() {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_SURVEYNOTE)) {
+			if (leaf.view instanceof SurveyNoteView) {
+				await leaf.view.reload();
+			}
+		}
+	}
+
 	/**
 	 * Toggle between SurveyNote and Markdown view for the active leaf
 	 */
@@ -303,6 +497,9 @@ export default class SurveyNotePlugin extends Plugin {
  */
 class SurveyNoteSettingTab extends PluginSettingTab {
 	plugin: SurveyNotePlugin;
+	private viewsChanged = false;
+	// Index of the template whose schema is being edited (-1: default schema)
+	private editingTemplate = -1;
 
 	constructor(app: App, plugin: SurveyNotePlugin) {
 		super(app, plugin);
@@ -345,5 +542,341 @@ class SurveyNoteSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					}
 				}));
+
+		// Code block collapse defaults
+		new Setting(containerEl)
+			.setName('Code blocks')
+			.setDesc('Initial state of code blocks that have not been toggled. "{collapsed}" or "{expanded}" in the info string overrides this.')
+			.addDropdown(dropdown => dropdown
+				.addOption('collapsed', 'Collapsed')
+				.addOption('expanded', 'Expanded')
+				.setValue(this.plugin.settings.codeBlockDefault)
+				.onChange(async (value: 'expanded' | 'collapsed') => {
+					this.plugin.settings.codeBlockDefault = value;
+					this.viewsChanged = true;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Collapse threshold')
+			.setDesc('When collapsing by default, only collapse code blocks longer than this many lines (0: all).')
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.inputEl.min = '0';
+				text.inputEl.addClass('surveynote-settings-number');
+				text.setValue(this.plugin.settings.codeBlockCollapseThreshold.toString())
+					.onChange(async (value) => {
+						const threshold = parseInt(value, 10);
+						if (!isNaN(threshold) && threshold >= 0) {
+							this.plugin.settings.codeBlockCollapseThreshold = threshold;
+							this.viewsChanged = true;
+							await this.plugin.saveSettings();
+						}
+					});
+			});
+
+		// Checkbox click order
+		const taskStates = TASK_STATES.map(state => `[${state.symbol}] ${state.label}`).join(', ');
+		new Setting(containerEl)
+			.setName('Task cycle')
+			.setDesc(`Checkbox states a click cycles through, in order. Available states: ${taskStates}.`)
+			.addText(text => text
+				.setPlaceholder(DEFAULT_TASK_CYCLE)
+				.setValue(this.plugin.settings.taskCycle)
+				.onChange(async (value) => {
+					this.plugin.settings.taskCycle = value.trim() || DEFAULT_TASK_CYCLE;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Propagate completion')
+			.setDesc('Check a parent task when all its subtasks are done, and uncheck it when one of them is reopened.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.taskPropagation)
+				.onChange(async (value) => {
+					this.plugin.settings.taskPropagation = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const errorEl = containerEl.createEl('p', {cls: 'surveynote-settings-error'});
+		this.displayTemplates(containerEl, errorEl);
+		this.displaySections(containerEl, errorEl);
+	}
+
+	/**
+	 * Refresh open views once the settings tab is closed, so the grid is not
+	 * rebuilt on every keystroke while a section is being edited
+	 */
+	hide(): void {
+		this.applyChanges();
+	}
+
+	private async applyChanges() {
+		// Drop unsaved invalid edits (empty or duplicate names and ids, rows wider than the grid)
+		if (this.validate()) {
+			await this.plugin.loadSettings();
+		}
+		if (this.viewsChanged) {
+			this.viewsChanged = false;
+			this.plugin.refreshViews();
+		}
+	}
+
+	/**
+	 * Display the template registry editor
+	 */
+	private displayTemplates(containerEl: HTMLElement, errorEl: HTMLElement) {
+		containerEl.createEl('h3', {text: 'Templates'});
+		containerEl.createEl('p', {
+			text: `Templates are offered when creating a new note. The template id is recorded in the "${TEMPLATE_FRONTMATTER_KEY}" property.`,
+			cls: 'setting-item-description'
+		});
+
+		const templates = this.plugin.settings.templates;
+
+		templates.forEach((template, index) => {
+			new Setting(containerEl)
+				.setName(template.name || `Template ${index + 1}`)
+				.addText(text => text
+					.setPlaceholder('Name')
+					.setValue(template.name)
+					.onChange(async (value) => {
+						template.name = value.trim();
+						await this.saveSections(errorEl);
+					}))
+				.addText(text => text
+					.setPlaceholder('id')
+					.setValue(template.id)
+					.onChange(async (value) => {
+						template.id = value.trim();
+						await this.saveSections(errorEl);
+					}))
+				.addDropdown(dropdown => dropdown
+					.addOption('note', 'All columns')
+					.addOption('3', '3 columns')
+					.addOption('2', '2 columns')
+					.addOption('1', '1 column')
+					.setValue(template.layout)
+					.onChange(async (value) => {
+						template.layout = value;
+						await this.saveSections(errorEl);
+					}))
+				.addExtraButton(button => button
+					.setIcon('pencil')
+					.setTooltip('Edit sections')
+					.onClick(() => {
+						this.editingTemplate = index;
+						this.display();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove template')
+					.setDisabled(templates.length <= 1)
+					.onClick(async () => {
+						templates.splice(index, 1);
+						this.editingTemplate = -1;
+						await this.saveSections(errorEl);
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add template')
+				.onClick(async () => {
+					templates.push({
+						id: `template-${templates.length + 1}`,
+						name: `Template ${templates.length + 1}`,
+						layout: 'note',
+						sections: cloneSections(DEFAULT_SECTIONS),
+					});
+					this.editingTemplate = templates.length - 1;
+					await this.saveSections(errorEl);
+					this.display();
+				}))
+			.addButton(button => button
+				.setButtonText('Reset templates')
+				.onClick(async () => {
+					this.plugin.settings.templates = cloneTemplates(DEFAULT_TEMPLATES);
+					this.editingTemplate = -1;
+					await this.saveSections(errorEl);
+					this.display();
+				}));
+	}
+
+	/**
+	 * Display the section schema editor for the default schema or a template
+	 */
+	private displaySections(containerEl: HTMLElement, errorEl: HTMLElement) {
+		const template = this.plugin.settings.templates[this.editingTemplate];
+		const sections = template ? template.sections : this.plugin.settings.sections;
+		const ordered = getOrderedSections(sections);
+
+		containerEl.createEl('h3', {text: 'Sections'});
+		containerEl.createEl('p', {
+			text: `Each section is saved as a "# Name" heading. Row and span place the section in a ${GRID_COLUMNS}-column grid. The default schema is used for notes without a template.`,
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName('Schema')
+			.addDropdown(dropdown => {
+				dropdown.addOption('-1', 'Default');
+				this.plugin.settings.templates.forEach((template, index) => {
+					dropdown.addOption(index.toString(), template.name || template.id);
+				});
+				dropdown
+					.setValue(template ? this.editingTemplate.toString() : '-1')
+					.onChange((value) => {
+						this.editingTemplate = parseInt(value, 10);
+						this.display();
+					});
+			});
+
+		ordered.forEach((section, index) => {
+			const setting = new Setting(containerEl)
+				.setName(`Section ${index + 1}`)
+				.addText(text => text
+					.setPlaceholder('Name')
+					.setValue(section.name)
+					.onChange(async (value) => {
+						section.name = value.trim();
+						await this.saveSections(errorEl);
+					}))
+				.addText(text => {
+					text.inputEl.type = 'number';
+					text.inputEl.min = '1';
+					text.inputEl.addClass('surveynote-settings-number');
+					text.inputEl.title = 'Row';
+					text
+						.setPlaceholder('Row')
+						.setValue(section.row.toString())
+						.onChange(async (value) => {
+							const row = parseInt(value, 10);
+							if (!isNaN(row) && row > 0) {
+								section.row = row;
+								await this.saveSections(errorEl);
+							}
+						});
+				})
+				.addDropdown(dropdown => {
+					for (let span = 1; span <= GRID_COLUMNS; span++) {
+						dropdown.addOption(span.toString(), `Span ${span}`);
+					}
+					dropdown
+						.setValue(section.span.toString())
+						.onChange(async (value) => {
+							section.span = parseInt(value, 10);
+							await this.saveSections(errorEl);
+						});
+				})
+				.addDropdown(dropdown => dropdown
+					.addOption('fixed', 'Fixed height')
+					.addOption('grow', 'Grow')
+					.setValue(section.height)
+					.onChange(async (value: 'fixed' | 'grow') => {
+						section.height = value;
+						await this.saveSections(errorEl);
+					}));
+
+			// Default body text is only used when creating a note from a template
+			if (template) {
+				setting.addTextArea(textArea => textArea
+					.setPlaceholder('Default text')
+					.setValue(section.defaultText ?? '')
+					.onChange(async (value) => {
+						section.defaultText = value;
+						await this.saveSections(errorEl);
+					}));
+			}
+
+			setting
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						this.swapOrder(ordered[index - 1], section);
+						await this.saveSections(errorEl);
+						this.display();
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip('Move down')
+					.setDisabled(index === ordered.length - 1)
+					.onClick(async () => {
+						this.swapOrder(section, ordered[index + 1]);
+						await this.saveSections(errorEl);
+						this.display();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove section')
+					.setDisabled(ordered.length <= 1)
+					.onClick(async () => {
+						sections.splice(sections.indexOf(section), 1);
+						normalizeOrder(sections);
+						await this.saveSections(errorEl);
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add section')
+				.onClick(async () => {
+					const lastRow = ordered.reduce((max, section) => Math.max(max, section.row), 1);
+					sections.push({
+						name: `Section${sections.length + 1}`,
+						order: sections.length,
+						row: lastRow,
+						span: 2,
+						height: 'grow',
+					});
+					normalizeOrder(sections);
+					await this.saveSections(errorEl);
+					this.display();
+				}))
+			.addButton(button => button
+				.setButtonText('Reset to default')
+				.onClick(async () => {
+					const defaults = cloneSections(DEFAULT_SECTIONS);
+					if (template) {
+						template.sections = defaults;
+					} else {
+						this.plugin.settings.sections = defaults;
+					}
+					await this.saveSections(errorEl);
+					this.display();
+				}));
+	}
+
+	/**
+	 * Swap the order of two adjacent sections
+	 */
+	private swapOrder(a: SectionConfig, b: SectionConfig) {
+		const order = a.order;
+		a.order = b.order;
+		b.order = order;
+	}
+
+	/**
+	 * Validate the default schema and every template
+	 */
+	private validate(): string | null {
+		return validateSections(this.plugin.settings.sections) ?? validateTemplates(this.plugin.settings.templates);
+	}
+
+	/**
+	 * Validate and save the section schemas
+	 */
+	private async saveSections(errorEl: HTMLElement) {
+		const error = this.validate();
+		errorEl.setText(error ?? '');
+		if (error) {
+			return;
+		}
+		await this.plugin.saveSettings();
+		this.viewsChanged = true;
 	}
 }
@@ -0,0 +1,124 @@
+/**
+ * Line-based three-way merge used when a section was changed both in the
+ * SurveyNote view and on disk.
+ */
+
+/**
+ * Result of a three-way merge
+ * - conflict: true if some lines were changed differently on both sides; the
+ *   text then contains conflict markers around those lines
+ */
+export interface MergeResult {
+	text: string;
+	conflict: boolean;
+}
+
+// Labels used in conflict markers
+const LOCAL_LABEL = 'SurveyNote';
+const REMOTE_LABEL = 'File';
+
+/**
+ * For every line of `a`, the index of the matching line in `b` (or -1),
+ * based on the longest common subsequence
+ */
+function matchLines(a: string[], b: string[]): number[] {
+	const matches = new Array<number>(a.length).fill(-1);
+
+	// Common prefix and suffix are matched directly to keep the table small
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		matches[start] = start;
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+		matches[endA] = endB;
+	}
+
+	const n = endA - start;
+	const m = endB - start;
+	const table: number[][] = [];
+	for (let i = 0; i <= n; i++) {
+		table.push(new Array<number>(m + 1).fill(0));
+	}
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			table[i][j] = a[start + i] === b[start + j]
+				? table[i + 1][j + 1] + 1
+				: Math.max(table[i + 1][j], table[i][j + 1]);
+		}
+	}
+
+	let i = 0;
+	let j = 0;
+	while (i < n && j < m) {
+		if (a[start + i] === b[start + j]) {
+			matches[start + i] = start + j;
+			i++;
+			j++;
+		} else if (table[i + 1][j] >= table[i][j + 1]) {
+			i++;
+		} else {
+			j++;
+		}
+	}
+	return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Merge `local` and `remote`, which were both derived from `base`
+ */
+export function mergeText(base: string, local: string, remote: string): MergeResult {
+	if (local === remote || remote === base) return { text: local, conflict: false };
+	if (local === base) return { text: remote, conflict: false };
+
+	const baseLines = base.split('\n');
+	const localLines = local.split('\n');
+	const remoteLines = remote.split('\n');
+	const localMatches = matchLines(baseLines, localLines);
+	const remoteMatches = matchLines(baseLines, remoteLines);
+
+	const output: string[] = [];
+	let conflict = false;
+	let b = 0;
+	let l = 0;
+	let r = 0;
+
+	while (b <= baseLines.length) {
+		// Find the next base line that is unchanged on both sides
+		let stable = b;
+		while (stable < baseLines.length && (localMatches[stable] === -1 || remoteMatches[stable] === -1)) {
+			stable++;
+		}
+		const localEnd = stable < baseLines.length ? localMatches[stable] : localLines.length;
+		const remoteEnd = stable < baseLines.length ? remoteMatches[stable] : remoteLines.length;
+
+		const baseChunk = baseLines.slice(b, stable);
+		const localChunk = localLines.slice(l, localEnd);
+		const remoteChunk = remoteLines.slice(r, remoteEnd);
+
+		if (sameLines(localChunk, baseChunk)) {
+			output.push(...remoteChunk);
+		} else if (sameLines(remoteChunk, baseChunk) || sameLines(localChunk, remoteChunk)) {
+			output.push(...localChunk);
+		} else {
+			conflict = true;
+			output.push(`<<<<<<< ${LOCAL_LABEL}`, ...localChunk, '=======', ...remoteChunk, `>>>>>>> ${REMOTE_LABEL}`);
+		}
+
+		if (stable >= baseLines.length) break;
+		output.push(baseLines[stable]);
+		b = stable + 1;
+		l = localEnd + 1;
+		r = remoteEnd + 1;
+	}
+
+	return { text: output.join('\n'), conflict };
+}
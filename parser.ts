@@ -0,0 +1,188 @@
+/**
+ * Lossless parser and serializer for SurveyNote Markdown.
+ *
+ * The note is split into a preamble (frontmatter and any text before the first
+ * known heading) and known sections. Every known section keeps the exact text
+ * around its content, so writing back an unchanged note reproduces the file
+ * byte for byte and only edited sections are rewritten.
+ */
+
+/**
+ * A known section found in the note
+ * - headingStart: offset of the `# Name` line
+ * - bodyStart: offset right after the heading line
+ * - end: offset of the next known heading (or end of text)
+ * - lead / core / trail: body split into leading blank lines, content and
+ *   trailing whitespace (core is what the section editor shows)
+ */
+export interface NoteSection {
+	name: string;
+	headingStart: number;
+	bodyStart: number;
+	end: number;
+	lead: string;
+	core: string;
+	trail: string;
+}
+
+/**
+ * Parsed note
+ */
+export interface ParsedNote {
+	text: string;
+	sections: NoteSection[];
+}
+
+const HEADING_REGEX = /^ {0,3}#[ \t]+(.*?)\s*$/;
+const FENCE_REGEX = /^ {0,3}(```|~~~)/;
+
+/**
+ * Offset where the body starts (after the frontmatter block, if any)
+ */
+export function getBodyStart(text: string): number {
+	if (!text.startsWith('---')) return 0;
+	const firstLineEnd = text.indexOf('\n');
+	if (firstLineEnd === -1 || text.substring(0, firstLineEnd).trim() !== '---') return 0;
+
+	let pos = firstLineEnd + 1;
+	while (pos < text.length) {
+		let lineEnd = text.indexOf('\n', pos);
+		if (lineEnd === -1) lineEnd = text.length;
+		if (text.substring(pos, lineEnd).trim() === '---') {
+			return Math.min(lineEnd + 1, text.length);
+		}
+		pos = lineEnd + 1;
+	}
+	return 0;
+}
+
+/**
+ * Split a section body into leading blank lines, content and trailing whitespace
+ */
+function splitBody(body: string): { lead: string, core: string, trail: string } {
+	const leadMatch = body.match(/^(?:[ \t]*\r?\n)*/);
+	const lead = leadMatch ? leadMatch[0] : '';
+	const rest = body.substring(lead.length);
+	const trailMatch = rest.match(/\s*$/);
+	const trail = trailMatch ? trailMatch[0] : '';
+	return { lead, core: rest.substring(0, rest.length - trail.length), trail };
+}
+
+/**
+ * Parse a note into known sections.
+ * A section runs until the next known heading, so unknown `# Headings` typed
+ * inside a section stay part of that section. Headings inside code fences are
+ * ignored, and only the first heading of each name starts a section.
+ */
+export function parseNote(text: string, sectionNames: string[]): ParsedNote {
+	const names = new Set(sectionNames);
+	const found = new Set<string>();
+	const starts: Array<{ name: string, headingStart: number, bodyStart: number }> = [];
+
+	let pos = getBodyStart(text);
+	let fence: string | null = null;
+	while (pos < text.length) {
+		let lineEnd = text.indexOf('\n', pos);
+		const hasNewline = lineEnd !== -1;
+		if (!hasNewline) lineEnd = text.length;
+		const line = text.substring(pos, lineEnd);
+
+		const fenceMatch = line.match(FENCE_REGEX);
+		if (fenceMatch) {
+			if (fence === null) {
+				fence = fenceMatch[1];
+			} else if (fence === fenceMatch[1]) {
+				fence = null;
+			}
+		} else if (fence === null) {
+			const headingMatch = line.match(HEADING_REGEX);
+			if (headingMatch && names.has(headingMatch[1]) && !found.has(headingMatch[1])) {
+				found.add(headingMatch[1]);
+				starts.push({ name: headingMatch[1], headingStart: pos, bodyStart: hasNewline ? lineEnd + 1 : lineEnd });
+			}
+		}
+		pos = lineEnd + 1;
+	}
+
+	const sections = starts.map((start, index) => {
+		const end = index + 1 < starts.length ? starts[index + 1].headingStart : text.length;
+		return { ...start, end, ...splitBody(text.substring(start.bodyStart, end)) };
+	});
+
+	return { text, sections };
+}
+
+/**
+ * Editor contents of every known section found in the note
+ */
+export function getSectionContents(note: ParsedNote): Record<string, string> {
+	const contents: Record<string, string> = {};
+	for (const section of note.sections) {
+		contents[section.name] = section.core;
+	}
+	return contents;
+}
+
+/**
+ * Write changed section contents back into the note.
+ * Unchanged text (preamble, other sections, whitespace) is kept as is.
+ * Sections missing from the note are inserted before the next section in
+ * `sectionOrder` that exists, or appended at the end.
+ */
+export function updateSections(note: ParsedNote, changes: Record<string, string>, sectionOrder: string[]): string {
+	const { text } = note;
+	const edits: Array<{ from: number, to: number, insert: string }> = [];
+	const byName = new Map(note.sections.map(section => [section.name, section]));
+	let appendix = '';
+
+	const names = [...sectionOrder, ...Object.keys(changes).filter(name => !sectionOrder.includes(name))];
+	for (const name of names) {
+		if (!(name in changes)) continue;
+		const core = changes[name];
+		const section = byName.get(name);
+
+		if (section) {
+			if (section.core === core) continue;
+			const atEnd = section.end === text.length;
+			let body: string;
+			if (section.core === '') {
+				// Nothing to keep around an empty section, so use the standard spacing
+				body = core === '' ? section.lead + section.trail : `${core}\n${atEnd ? '' : '\n'}`;
+			} else {
+				body = section.lead + core + section.trail;
+			}
+			// A heading on the last line has no newline to separate it from the body
+			const headingLine = text.substring(section.headingStart, section.bodyStart);
+			if (!headingLine.endsWith('\n')) body = '\n' + body;
+			edits.push({ from: section.bodyStart, to: section.end, insert: body });
+			continue;
+		}
+
+		if (core === '') continue;
+
+		const following = sectionOrder.slice(sectionOrder.indexOf(name) + 1)
+			.map(next => byName.get(next))
+			.find((next): next is NoteSection => next !== undefined);
+		if (following) {
+			edits.push({ from: following.headingStart, to: following.headingStart, insert: `# ${name}\n${core}\n\n` });
+		} else {
+			appendix += `# ${name}\n${core}\n\n`;
+		}
+	}
+
+	// Apply from the end so earlier offsets stay valid; sections inserted at the
+	// same offset are applied in reverse so they end up in schema order
+	const ordered = edits.map((edit, index) => ({ ...edit, index }))
+		.sort((a, b) => (b.from - a.from) || (b.index - a.index));
+	let result = text;
+	for (const edit of ordered) {
+		result = result.substring(0, edit.from) + edit.insert + result.substring(edit.to);
+	}
+
+	if (appendix) {
+		if (result.length > 0 && !result.endsWith('\n')) result += '\n\n';
+		else if (result.length > 0 && !result.endsWith('\n\n')) result += '\n';
+		result += appendix.replace(/\n$/, '');
+	}
+	return result;
+}
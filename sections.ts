@@ -0,0 +1,166 @@
+/**
+ * Section schema for SurveyNote notes.
+ *
+ * A schema is an ordered list of sections. Each section is stored in the
+ * Markdown body under a level-1 heading (`# Name`) and rendered as one
+ * editor in the SurveyNote grid.
+ */
+
+// Number of columns in the SurveyNote grid
+export const GRID_COLUMNS = 6;
+
+/**
+ * Height behavior of a grid item
+ * - fixed: about 4 lines tall, scrolls inside the section
+ * - grow: fills the remaining height and grows with its content
+ */
+export type SectionHeight = 'fixed' | 'grow';
+
+/**
+ * Definition of a single section in the schema
+ */
+export interface SectionConfig {
+	name: string;
+	order: number;
+	row: number;
+	span: number;
+	height: SectionHeight;
+	defaultText?: string;
+}
+
+/**
+ * Default schema (Purpose / Summary on top, three content columns below)
+ */
+export const DEFAULT_SECTIONS: SectionConfig[] = [
+	{ name: 'Purpose', order: 0, row: 1, span: 3, height: 'fixed' },
+	{ name: 'Summary', order: 1, row: 1, span: 3, height: 'fixed' },
+	{ name: 'Content1', order: 2, row: 2, span: 2, height: 'grow' },
+	{ name: 'Content2', order: 3, row: 2, span: 2, height: 'grow' },
+	{ name: 'Content3', order: 4, row: 2, span: 2, height: 'grow' },
+];
+
+/**
+ * Grid placement computed for one section
+ */
+export interface SectionPlacement {
+	section: SectionConfig;
+	row: number;
+	span: number;
+}
+
+/**
+ * Grid layout computed from a schema
+ */
+export interface GridLayout {
+	placements: SectionPlacement[];
+	templateRows: string;
+}
+
+/**
+ * Deep copy a schema so that settings edits never touch the defaults
+ */
+export function cloneSections(sections: SectionConfig[]): SectionConfig[] {
+	return sections.map(section => ({ ...section }));
+}
+
+/**
+ * Return the sections sorted by their order value
+ */
+export function getOrderedSections(sections: SectionConfig[]): SectionConfig[] {
+	return [...sections].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Re-number order values so they are consecutive (0, 1, 2, ...)
+ */
+export function normalizeOrder(sections: SectionConfig[]): void {
+	getOrderedSections(sections).forEach((section, index) => {
+		section.order = index;
+	});
+}
+
+/**
+ * Check whether a schema can be used to parse and save notes and laid out
+ * in the grid (the spans of a row add up to at most GRID_COLUMNS)
+ */
+export function validateSections(sections: SectionConfig[]): string | null {
+	if (sections.length === 0) {
+		return 'At least one section is required.';
+	}
+	const names = new Set<string>();
+	for (const section of sections) {
+		const name = section.name.trim();
+		if (!name) {
+			return 'Section name cannot be empty.';
+		}
+		if (names.has(name)) {
+			return `Duplicate section name: ${name}`;
+		}
+		names.add(name);
+	}
+
+	// Sections of a row share the grid width
+	const rowSpans = new Map<number, number>();
+	for (const section of sections) {
+		const row = Math.max(1, Math.floor(section.row) || 1);
+		const span = Math.min(GRID_COLUMNS, Math.max(1, Math.floor(section.span) || 1));
+		rowSpans.set(row, (rowSpans.get(row) ?? 0) + span);
+	}
+	for (const [row, span] of rowSpans) {
+		if (span > GRID_COLUMNS) {
+			return `Row ${row} spans ${span} columns (at most ${GRID_COLUMNS}).`;
+		}
+	}
+	return null;
+}
+
+/**
+ * Compute grid placement for a schema.
+ *
+ * `columnLimit` comes from the `survey-note-view` frontmatter value (1, 2, 3).
+ * It limits the number of sections shown in the last row and spreads them
+ * over the full grid width.
+ */
+export function buildGridLayout(sections: SectionConfig[], columnLimit?: number): GridLayout {
+	const ordered = getOrderedSections(sections);
+	const rows = new Map<number, SectionConfig[]>();
+	for (const section of ordered) {
+		const row = Math.max(1, Math.floor(section.row) || 1);
+		if (!rows.has(row)) {
+			rows.set(row, []);
+		}
+		rows.get(row)?.push(section);
+	}
+
+	const rowNumbers = Array.from(rows.keys()).sort((a, b) => a - b);
+	const lastRow = rowNumbers[rowNumbers.length - 1];
+	const placements: SectionPlacement[] = [];
+	const templateRows: string[] = [];
+
+	rowNumbers.forEach((rowNumber, rowIndex) => {
+		let rowSections = rows.get(rowNumber) || [];
+		let spreadEvenly = false;
+
+		if (rowNumber === lastRow && columnLimit && columnLimit < rowSections.length) {
+			rowSections = rowSections.slice(0, columnLimit);
+			spreadEvenly = true;
+		}
+
+		const evenSpan = Math.max(1, Math.floor(GRID_COLUMNS / rowSections.length));
+		rowSections.forEach((section, index) => {
+			let span = Math.min(GRID_COLUMNS, Math.max(1, Math.floor(section.span) || 1));
+			if (spreadEvenly) {
+				// Give the remainder to the last section so the row stays full
+				span = index === rowSections.length - 1
+					? GRID_COLUMNS - evenSpan * (rowSections.length - 1)
+					: evenSpan;
+			}
+			placements.push({ section, row: rowIndex + 1, span });
+		});
+
+		const grows = rowSections.some(section => section.height === 'grow');
+		templateRows.push(grows ? '1fr' : 'auto');
+	});
+
+	return { placements, templateRows: templateRows.join(' ') };
+}
@@ -0,0 +1,139 @@
+import { EditorState } from '@codemirror/state';
+import { ensureSyntaxTree, syntaxTree } from '@codemirror/language';
+import { Tree } from '@lezer/common';
+import { InlineContext, MarkdownConfig } from '@lezer/markdown';
+import { tags } from '@lezer/highlight';
+
+/**
+ * Markdown syntax used by the section editors on top of GFM: internal links
+ * `[[Note]]`, embeds `![[image.png]]` and math `$x$` / `$$x$$`.
+ *
+ * These are parsed as inline elements of the Lezer Markdown tree, so they
+ * are not recognized inside code, escaped with `\`, and the editor
+ * decorations can be driven entirely by syntax nodes.
+ */
+
+// Longest time spent finishing the parse of a section before decorating
+const PARSE_TIMEOUT = 200;
+
+const CHAR_NEWLINE = 10;
+const CHAR_BANG = 33;
+const CHAR_DOLLAR = 36;
+const CHAR_OPEN_BRACKET = 91;
+const CHAR_BACKSLASH = 92;
+const CHAR_CLOSE_BRACKET = 93;
+
+function isSpace(char: number): boolean {
+	return char === 32 || char === 9 || char === CHAR_NEWLINE || char === 13;
+}
+
+function isDigit(char: number): boolean {
+	return char >= 48 && char <= 57;
+}
+
+/**
+ * Add a `[[...]]` element (preceded by `prefix` characters) starting at `pos`.
+ * The content cannot be empty nor contain brackets or line breaks.
+ */
+function parseDoubleBracket(cx: InlineContext, pos: number, prefix: number, name: string): number {
+	const contentFrom = pos + prefix + 2;
+	for (let i = contentFrom; i < cx.end; i++) {
+		const char = cx.char(i);
+		if (char === CHAR_CLOSE_BRACKET) {
+			if (i === contentFrom || cx.char(i + 1) !== CHAR_CLOSE_BRACKET) return -1;
+			return cx.addElement(cx.elt(name, pos, i + 2, [
+				cx.elt(`${name}Mark`, pos, contentFrom),
+				cx.elt(`${name}Mark`, i, i + 2)
+			]));
+		}
+		if (char === CHAR_OPEN_BRACKET || char === CHAR_NEWLINE) return -1;
+	}
+	return -1;
+}
+
+/**
+ * `$$display$$` (may span lines of a paragraph) or `$inline$`. Inline math
+ * cannot start or end with a space and cannot be followed by a digit, so
+ * prices like "$5 and $6" stay text.
+ */
+function parseMath(cx: InlineContext, next: number, pos: number): number {
+	if (next !== CHAR_DOLLAR) return -1;
+
+	if (cx.char(pos + 1) === CHAR_DOLLAR) {
+		for (let i = pos + 2; i < cx.end - 1; i++) {
+			if (cx.char(i) === CHAR_BACKSLASH) {
+				i++;
+			} else if (cx.char(i) === CHAR_DOLLAR && cx.char(i + 1) === CHAR_DOLLAR) {
+				if (i === pos + 2) return -1;
+				return cx.addElement(cx.elt('DisplayMath', pos, i + 2, [
+					cx.elt('MathMark', pos, pos + 2),
+					cx.elt('MathMark', i, i + 2)
+				]));
+			}
+		}
+		return -1;
+	}
+
+	if (pos > cx.offset && cx.char(pos - 1) === CHAR_DOLLAR) return -1;
+	const first = cx.char(pos + 1);
+	if (first < 0 || isSpace(first)) return -1;
+	for (let i = pos + 1; i < cx.end; i++) {
+		const char = cx.char(i);
+		if (char === CHAR_NEWLINE) return -1;
+		if (char !== CHAR_DOLLAR) continue;
+		const before = cx.char(i - 1);
+		const after = cx.char(i + 1);
+		if (i === pos + 1 || isSpace(before) || before === CHAR_BACKSLASH) return -1;
+		if (isDigit(after) || after === CHAR_DOLLAR) return -1;
+		return cx.addElement(cx.elt('InlineMath', pos, i + 1, [
+			cx.elt('MathMark', pos, pos + 1),
+			cx.elt('MathMark', i, i + 1)
+		]));
+	}
+	return -1;
+}
+
+/**
+ * Markdown extension for `markdown({ base: markdownLanguage, extensions })`
+ */
+export const surveyNoteMarkdown: MarkdownConfig = {
+	defineNodes: [
+		{ name: 'WikiLink', style: tags.link },
+		{ name: 'WikiLinkMark', style: tags.processingInstruction },
+		{ name: 'Embed', style: tags.link },
+		{ name: 'EmbedMark', style: tags.processingInstruction },
+		{ name: 'InlineMath', style: tags.special(tags.content) },
+		{ name: 'DisplayMath', style: tags.special(tags.content) },
+		{ name: 'MathMark', style: tags.processingInstruction },
+	],
+	parseInline: [
+		{
+			name: 'Embed',
+			parse: (cx, next, pos) => next === CHAR_BANG && cx.char(pos + 1) === CHAR_OPEN_BRACKET && cx.char(pos + 2) === CHAR_OPEN_BRACKET
+				? parseDoubleBracket(cx, pos, 1, 'Embed')
+				: -1,
+			before: 'Image'
+		},
+		{
+			name: 'WikiLink',
+			parse: (cx, next, pos) => next === CHAR_OPEN_BRACKET && cx.char(pos + 1) === CHAR_OPEN_BRACKET
+				? parseDoubleBracket(cx, pos, 0, 'WikiLink')
+				: -1,
+			before: 'Link'
+		},
+		{
+			name: 'Math',
+			parse: parseMath,
+			after: 'Escape'
+		},
+	],
+};
+
+/**
+ * Syntax tree of the document up to `to` (the end by default). The parse is
+ * finished up to there if it has not got that far yet; if that takes too
+ * long, the partial tree is returned.
+ */
+export function getSyntaxTree(state: EditorState, to = state.doc.length): Tree {
+	return ensureSyntaxTree(state, to, PARSE_TIMEOUT) ?? syntaxTree(state);
+}
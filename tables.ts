@@ -0,0 +1,250 @@
+/**
+ * GFM (pipe) table parsing, formatting and editing operations.
+ *
+ * Tables are edited as a model (header, alignments, body rows) and written
+ * back with every column padded to the same width.
+ */
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+/**
+ * Parsed table
+ */
+export interface TableModel {
+	header: string[];
+	align: TableAlign[];
+	rows: string[][];
+}
+
+/**
+ * Editing operations available as commands
+ */
+export type TableOperation =
+	'insertRow' | 'deleteRow' | 'moveRowUp' | 'moveRowDown' |
+	'insertColumn' | 'deleteColumn' | 'moveColumnLeft' | 'moveColumnRight';
+
+/**
+ * Commands registered for the table operations
+ */
+export const TABLE_COMMANDS: Array<{ id: string, name: string, operation: TableOperation }> = [
+	{ id: 'table-insert-row', name: '表: 下に行を追加', operation: 'insertRow' },
+	{ id: 'table-delete-row', name: '表: 行を削除', operation: 'deleteRow' },
+	{ id: 'table-move-row-up', name: '表: 行を上へ移動', operation: 'moveRowUp' },
+	{ id: 'table-move-row-down', name: '表: 行を下へ移動', operation: 'moveRowDown' },
+	{ id: 'table-insert-column', name: '表: 右に列を追加', operation: 'insertColumn' },
+	{ id: 'table-delete-column', name: '表: 列を削除', operation: 'deleteColumn' },
+	{ id: 'table-move-column-left', name: '表: 列を左へ移動', operation: 'moveColumnLeft' },
+	{ id: 'table-move-column-right', name: '表: 列を右へ移動', operation: 'moveColumnRight' },
+];
+
+// Hangul, CJK, full-width forms
+const WIDE_CHAR_REGEX = /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/;
+
+/**
+ * Split a table row into cell texts (escaped pipes `\|` stay in the cell)
+ */
+export function splitRow(line: string): string[] {
+	let text = line.trim();
+	if (text.startsWith('|')) text = text.substring(1);
+	if (text.endsWith('|') && !text.endsWith('\\|')) text = text.substring(0, text.length - 1);
+
+	const cells: string[] = [];
+	let current = '';
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] === '\\' && text[i + 1] === '|') {
+			current += '\\|';
+			i++;
+		} else if (text[i] === '|') {
+			cells.push(current.trim());
+			current = '';
+		} else {
+			current += text[i];
+		}
+	}
+	cells.push(current.trim());
+	return cells;
+}
+
+/**
+ * Parse the lines of a table (a `Table` node of the Markdown syntax tree)
+ */
+export function parseTable(text: string): TableModel {
+	const lines = text.split('\n');
+	const header = splitRow(lines[0]);
+	const align = splitRow(lines[1]).map((cell): TableAlign => {
+		const left = cell.startsWith(':');
+		const right = cell.endsWith(':');
+		if (left && right) return 'center';
+		if (right) return 'right';
+		if (left) return 'left';
+		return null;
+	});
+	const rows = lines.slice(2).map(line => splitRow(line));
+
+	// Make the header and every row as wide as the widest row, so that no
+	// cell is lost when the table is written back
+	const columns = Math.max(header.length, ...rows.map(row => row.length));
+	while (header.length < columns) header.push('');
+	for (const row of rows) {
+		while (row.length < columns) row.push('');
+	}
+	while (align.length < columns) align.push(null);
+	align.length = columns;
+
+	return { header, align, rows };
+}
+
+/**
+ * Display width of a cell (full-width characters count as 2 columns)
+ */
+export function getDisplayWidth(text: string): number {
+	let width = 0;
+	for (const char of text) {
+		width += WIDE_CHAR_REGEX.test(char) ? 2 : 1;
+	}
+	return width;
+}
+
+function padCell(text: string, width: number, align: TableAlign): string {
+	const space = width - getDisplayWidth(text);
+	if (space <= 0) return text;
+	if (align === 'right') return ' '.repeat(space) + text;
+	if (align === 'center') {
+		const left = Math.floor(space / 2);
+		return ' '.repeat(left) + text + ' '.repeat(space - left);
+	}
+	return text + ' '.repeat(space);
+}
+
+function delimiterCell(width: number, align: TableAlign): string {
+	if (align === 'center') return ':' + '-'.repeat(Math.max(1, width - 2)) + ':';
+	if (align === 'right') return '-'.repeat(Math.max(1, width - 1)) + ':';
+	if (align === 'left') return ':' + '-'.repeat(Math.max(1, width - 1));
+	return '-'.repeat(width);
+}
+
+/**
+ * Write a table back as Markdown with padded columns
+ */
+export function formatTable(model: TableModel): string {
+	const widths = model.header.map((cell, column) => Math.max(
+		3,
+		getDisplayWidth(cell),
+		...model.rows.map(row => getDisplayWidth(row[column] ?? ''))
+	));
+	const formatRow = (cells: string[]) =>
+		'| ' + cells.map((cell, column) => padCell(cell ?? '', widths[column], model.align[column])).join(' | ') + ' |';
+
+	return [
+		formatRow(model.header),
+		'| ' + widths.map((width, column) => delimiterCell(width, model.align[column])).join(' | ') + ' |',
+		...model.rows.map(row => formatRow(row))
+	].join('\n');
+}
+
+/**
+ * Row and column of a position inside table text.
+ * Row 0 is the header; the delimiter row counts as the header.
+ */
+export function getCellAt(text: string, offset: number): { row: number, column: number } {
+	const before = text.substring(0, offset);
+	const lineIndex = before.split('\n').length - 1;
+	const lineText = before.substring(before.lastIndexOf('\n') + 1).replace(/\\\|/g, '  ');
+	const pipes = (lineText.match(/\|/g) || []).length;
+	const startsWithPipe = lineText.trimStart().startsWith('|');
+	const column = Math.max(0, startsWithPipe ? pipes - 1 : pipes);
+	return { row: lineIndex <= 1 ? 0 : lineIndex - 1, column };
+}
+
+/**
+ * Range of the content of a cell in table text (an empty cell gives the
+ * position after the opening pipe and space)
+ */
+export function getCellRange(text: string, row: number, column: number): { from: number, to: number } {
+	const lines = text.split('\n');
+	const lineIndex = Math.min(row === 0 ? 0 : row + 1, lines.length - 1);
+	let offset = 0;
+	for (let i = 0; i < lineIndex; i++) {
+		offset += lines[i].length + 1;
+	}
+	const line = lines[lineIndex];
+
+	// Positions of the unescaped pipes of this line
+	const pipes: number[] = [];
+	for (let i = 0; i < line.length; i++) {
+		if (line[i] === '|' && line[i - 1] !== '\\') pipes.push(i);
+	}
+	if (!line.trimStart().startsWith('|')) pipes.unshift(-1);
+	if (column >= pipes.length) return { from: offset + line.length, to: offset + line.length };
+
+	const start = pipes[column] + 1;
+	const end = column + 1 < pipes.length ? pipes[column + 1] : line.length;
+	const cell = line.substring(start, end);
+	const content = cell.trim();
+	if (content === '') {
+		const from = offset + Math.min(start + 1, end);
+		return { from, to: from };
+	}
+	const from = offset + start + cell.indexOf(content);
+	return { from, to: from + content.length };
+}
+
+/**
+ * Apply an editing operation at the given cell.
+ * Returns the new model and the cell the cursor should move to, or null if
+ * the operation does not apply there (e.g. deleting or moving the header row).
+ */
+export function applyTableOperation(
+	model: TableModel, operation: TableOperation, row: number, column: number
+): { model: TableModel, row: number, column: number } | null {
+	const header = [...model.header];
+	const align = [...model.align];
+	const rows = model.rows.map(cells => [...cells]);
+	const columns = header.length;
+	// Body row index of the cursor (-1 on the header)
+	const bodyIndex = row - 1;
+
+	const swap = <T>(items: T[], a: number, b: number) => {
+		const item = items[a];
+		items[a] = items[b];
+		items[b] = item;
+	};
+
+	switch (operation) {
+		case 'insertRow':
+			rows.splice(bodyIndex + 1, 0, new Array<string>(columns).fill(''));
+			return { model: { header, align, rows }, row: row + 1, column };
+		case 'deleteRow':
+			if (bodyIndex < 0) break;
+			rows.splice(bodyIndex, 1);
+			return { model: { header, align, rows }, row: Math.min(row, rows.length), column };
+		case 'moveRowUp':
+			if (bodyIndex < 1) break;
+			swap(rows, bodyIndex, bodyIndex - 1);
+			return { model: { header, align, rows }, row: row - 1, column };
+		case 'moveRowDown':
+			if (bodyIndex < 0 || bodyIndex >= rows.length - 1) break;
+			swap(rows, bodyIndex, bodyIndex + 1);
+			return { model: { header, align, rows }, row: row + 1, column };
+		case 'insertColumn':
+			header.splice(column + 1, 0, '');
+			align.splice(column + 1, 0, null);
+			rows.forEach(cells => cells.splice(column + 1, 0, ''));
+			return { model: { header, align, rows }, row, column: column + 1 };
+		case 'deleteColumn':
+			if (columns <= 1) break;
+			header.splice(column, 1);
+			align.splice(column, 1);
+			rows.forEach(cells => cells.splice(column, 1));
+			return { model: { header, align, rows }, row, column: Math.min(column, columns - 2) };
+		case 'moveColumnLeft':
+			if (column < 1) break;
+			[header, align, ...rows].forEach(cells => swap<string | TableAlign>(cells, column, column - 1));
+			return { model: { header, align, rows }, row, column: column - 1 };
+		case 'moveColumnRight':
+			if (column >= columns - 1) break;
+			[header, align, ...rows].forEach(cells => swap<string | TableAlign>(cells, column, column + 1));
+			return { model: { header, align, rows }, row, column: column + 1 };
+	}
+	return null;
+}
@@ -0,0 +1,377 @@
+import { moment } from 'obsidian';
+import { ORDERED_ITEM_REGEX, getIndentWidth } from './lists';
+
+/**
+ * Task (checkbox) states: `- [ ]` and `- [x]` plus the extended states used
+ * in research notes, and the order in which clicking a checkbox cycles
+ * through them.
+ */
+
+/**
+ * A task state
+ * - symbol: character between the brackets
+ * - name: used for the `task-<name>` CSS class of the checkbox
+ * - label: tooltip of the checkbox
+ * - icon: shown inside the checkbox
+ */
+export interface TaskState {
+	symbol: string;
+	name: string;
+	label: string;
+	icon: string;
+}
+
+export const TASK_STATES: TaskState[] = [
+	{ symbol: ' ', name: 'todo', label: 'To do', icon: '' },
+	{ symbol: 'x', name: 'done', label: 'Done', icon: '✓' },
+	{ symbol: '/', name: 'in-progress', label: 'In progress', icon: '◐' },
+	{ symbol: '-', name: 'cancelled', label: 'Cancelled', icon: '✕' },
+	{ symbol: '>', name: 'deferred', label: 'Deferred', icon: '»' },
+	{ symbol: '?', name: 'question', label: 'Question', icon: '?' },
+];
+
+// `- [ ] `, `- [x] `, `- [/] `, ... at the start of a line
+export const TASK_LINE_REGEX = /^(\s*)- \[([ xX/>?-])\] /;
+
+// Default click order, written as in the settings
+export const DEFAULT_TASK_CYCLE = '[ ] [/] [x]';
+
+/**
+ * State of a checkbox symbol (`X` is the same as `x`)
+ */
+export function getTaskState(symbol: string): TaskState {
+	const normalized = symbol === 'X' ? 'x' : symbol;
+	return TASK_STATES.find(state => state.symbol === normalized) ?? TASK_STATES[0];
+}
+
+/**
+ * Symbols of a cycle setting such as `[ ] [/] [x]`. Unknown and repeated
+ * states are ignored; fewer than two states fall back to `[ ]` and `[x]`.
+ */
+export function parseTaskCycle(text: string): string[] {
+	const symbols: string[] = [];
+	for (const match of text.matchAll(/\[(.)\]/g)) {
+		const symbol = match[1] === 'X' ? 'x' : match[1];
+		if (TASK_STATES.some(state => state.symbol === symbol) && !symbols.includes(symbol)) {
+			symbols.push(symbol);
+		}
+	}
+	return symbols.length >= 2 ? symbols : [' ', 'x'];
+}
+
+/**
+ * Symbol a checkbox gets when clicked: the next state of the cycle, or the
+ * first one for a state that is not part of the cycle
+ */
+export function getNextTaskSymbol(symbol: string, cycle: string[]): string {
+	const index = cycle.indexOf(getTaskState(symbol).symbol);
+	return index === -1 ? cycle[0] : cycle[(index + 1) % cycle.length];
+}
+
+/**
+ * Inline task metadata in the format of the Tasks plugin, e.g.
+ * `- [ ] Read the paper 🔼 🔁 every week 📅 2024-05-01 ✅ 2024-04-28`
+ */
+export type TaskMetadataKind = 'due' | 'scheduled' | 'start' | 'created' | 'done' | 'cancelled' | 'priority' | 'recurrence';
+
+/**
+ * A metadata field of a task line
+ * - value: the date (YYYY-MM-DD), the priority name or the recurrence rule
+ * - from / to: offsets of the field (sign and value) in the line
+ */
+export interface TaskMetadataField {
+	kind: TaskMetadataKind;
+	sign: string;
+	value: string;
+	from: number;
+	to: number;
+}
+
+/**
+ * Recurrence rule `every [n] day|week|month|year [when done]`. Other rules
+ * of the Tasks plugin (weekdays, "on the 1st", ...) are repeated by the
+ * interval only.
+ * - whenDone: the next occurrence is counted from the done date instead of
+ *   the task's own dates
+ */
+export interface TaskRecurrence {
+	interval: number;
+	unit: 'day' | 'week' | 'month' | 'year';
+	whenDone: boolean;
+}
+
+const DATE_SIGNS: Record<string, TaskMetadataKind> = {
+	'📅': 'due',
+	'⏳': 'scheduled',
+	'🛫': 'start',
+	'➕': 'created',
+	'✅': 'done',
+	'❌': 'cancelled',
+};
+
+export const PRIORITY_SIGNS: Record<string, string> = {
+	'🔺': 'highest',
+	'⏫': 'high',
+	'🔼': 'medium',
+	'🔽': 'low',
+	'⏬': 'lowest',
+};
+
+const RECURRENCE_SIGN = '🔁';
+const DONE_SIGN = '✅';
+const DATE_FORMAT = 'YYYY-MM-DD';
+
+const SIGN_REGEX = new RegExp([...Object.keys(DATE_SIGNS), ...Object.keys(PRIORITY_SIGNS), RECURRENCE_SIGN].join('|'), 'g');
+// Block id at the end of a line
+const BLOCK_ID_REGEX = /\s+\^[\w-]+\s*$/;
+
+/**
+ * Metadata fields of a task line, in line order. Dates must be written as
+ * YYYY-MM-DD; a recurrence rule runs up to the next field, tag or block id.
+ */
+export function parseTaskMetadata(line: string): TaskMetadataField[] {
+	const signs = [...line.matchAll(SIGN_REGEX)];
+	const fields: TaskMetadataField[] = [];
+	signs.forEach((match, index) => {
+		const sign = match[0];
+		const from = match.index ?? 0;
+		const end = index + 1 < signs.length ? (signs[index + 1].index ?? line.length) : line.length;
+		const rest = line.substring(from + sign.length, end);
+
+		if (sign in PRIORITY_SIGNS) {
+			const length = rest.startsWith('\uFE0F') ? 1 : 0;
+			fields.push({ kind: 'priority', sign, value: PRIORITY_SIGNS[sign], from, to: from + sign.length + length });
+		} else if (sign === RECURRENCE_SIGN) {
+			const rule = rest.match(/^\uFE0F?[ \t]*([^#^]*?)(?=\s*$|\s+[#^])/);
+			if (rule && rule[1]) {
+				fields.push({ kind: 'recurrence', sign, value: rule[1], from, to: from + sign.length + rule[0].length });
+			}
+		} else {
+			const date = rest.match(/^\uFE0F?[ \t]*(\d{4}-\d{2}-\d{2})/);
+			if (date) {
+				fields.push({ kind: DATE_SIGNS[sign], sign, value: date[1], from, to: from + sign.length + date[0].length });
+			}
+		}
+	});
+	return fields;
+}
+
+/**
+ * Parse a recurrence rule such as `every 2 weeks when done`, or null if it
+ * is not understood
+ */
+export function parseRecurrence(rule: string): TaskRecurrence | null {
+	const match = rule.trim().toLowerCase().match(/^every\s+(?:(\d+)\s+)?(day|week|month|year)s?\b(.*)$/);
+	if (!match) return null;
+	const interval = match[1] ? parseInt(match[1], 10) : 1;
+	if (interval < 1) return null;
+	return {
+		interval,
+		unit: match[2] as TaskRecurrence['unit'],
+		whenDone: /(^|\s)when done$/.test(match[3].trim())
+	};
+}
+
+/**
+ * Remove a field from a task line, with the whitespace before it
+ */
+function removeField(line: string, field: TaskMetadataField, prefixLength: number): string {
+	let start = field.from;
+	while (start > prefixLength && /[ \t]/.test(line[start - 1])) start--;
+	return line.substring(0, start) + line.substring(field.to);
+}
+
+/**
+ * A task line with its done date set to `date` (YYYY-MM-DD), or removed when
+ * `date` is null. The date goes at the end of the line, before a block id.
+ */
+export function setTaskDoneDate(line: string, date: string | null): string {
+	const task = line.match(TASK_LINE_REGEX);
+	if (!task) return line;
+
+	const doneFields = parseTaskMetadata(line).filter(field => field.kind === 'done');
+	let result = line;
+	for (const field of doneFields.reverse()) {
+		result = removeField(result, field, task[0].length);
+	}
+	if (date === null) return result;
+
+	const blockId = result.match(BLOCK_ID_REGEX);
+	const end = blockId ? result.length - blockId[0].length : result.length;
+	return `${result.substring(0, end).trimEnd()} ${DONE_SIGN} ${date}${result.substring(end)}`;
+}
+
+/**
+ * The next occurrence of a recurring task completed on `doneDate`: an open
+ * task whose due, scheduled and start dates move by the recurrence interval
+ * (keeping their distance to each other), without the done and cancelled
+ * dates or the block id. Null if the line has no recurrence rule.
+ */
+export function getNextOccurrence(line: string, doneDate: string): string | null {
+	const task = line.match(TASK_LINE_REGEX);
+	if (!task) return null;
+
+	const fields = parseTaskMetadata(line);
+	const rule = fields.find(field => field.kind === 'recurrence');
+	const recurrence = rule ? parseRecurrence(rule.value) : null;
+	if (!recurrence) return null;
+
+	// The first of due, scheduled and start dates is the reference of the others
+	const dateFields = fields.filter(field => ['due', 'scheduled', 'start'].includes(field.kind) &&
+		moment(field.value, DATE_FORMAT, true).isValid());
+	const reference = ['due', 'scheduled', 'start']
+		.map(kind => dateFields.find(field => field.kind === kind))
+		.find(field => field !== undefined);
+	const base = recurrence.whenDone || !reference ? moment(doneDate, DATE_FORMAT) : moment(reference.value, DATE_FORMAT);
+	const nextReference = base.clone().add(recurrence.interval, recurrence.unit);
+
+	let result = line.replace(BLOCK_ID_REGEX, '');
+	for (const field of [...fields].reverse()) {
+		if (field.kind === 'done' || field.kind === 'cancelled') {
+			result = removeField(result, field, task[0].length);
+		} else if (reference && dateFields.includes(field)) {
+			const offset = moment(field.value, DATE_FORMAT).diff(moment(reference.value, DATE_FORMAT), 'days');
+			const date = nextReference.clone().add(offset, 'days').format(DATE_FORMAT);
+			result = result.substring(0, field.to - field.value.length) + date + result.substring(field.to);
+		}
+	}
+	return result.replace(TASK_LINE_REGEX, `${task[1]}- [ ] `);
+}
+
+/**
+ * A task line with its state set to `symbol` (`today` as YYYY-MM-DD).
+ * Checking stamps the done date and puts the next occurrence of a recurring
+ * task on a new line above it; unchecking removes the done date again.
+ */
+export function setTaskSymbol(line: string, symbol: string, today: string): string {
+	const task = line.match(TASK_LINE_REGEX);
+	if (!task) return line;
+
+	const result = `${task[1]}- [${symbol}] ${line.substring(task[0].length)}`;
+	const wasDone = getTaskState(task[2]).name === 'done';
+	const isDone = getTaskState(symbol).name === 'done';
+	if (isDone && !wasDone) {
+		const done = setTaskDoneDate(result, today);
+		const nextOccurrence = getNextOccurrence(done, today);
+		return nextOccurrence === null ? done : `${nextOccurrence}\n${done}`;
+	}
+	if (wasDone && !isDone) {
+		return setTaskDoneDate(result, null);
+	}
+	return result;
+}
+
+/**
+ * Done and total counts of the tasks below a parent task. Cancelled tasks
+ * are not counted.
+ */
+export interface TaskProgress {
+	done: number;
+	total: number;
+}
+
+/**
+ * Parent task of every task line, keyed by line index: the nearest enclosing
+ * list item that is a task (plain bullets in between are skipped). A line
+ * that is not indented and not a list item ends the list.
+ */
+function getTaskParents(lines: string[]): Map<number, number> {
+	const parents = new Map<number, number>();
+	const stack: Array<{ index: number, width: number, isTask: boolean }> = [];
+	lines.forEach((line, index) => {
+		if (line.trim() === '') return;
+		const width = getIndentWidth(line.match(/^[ \t]*/)?.[0] ?? '');
+		const isTask = TASK_LINE_REGEX.test(line);
+		if (!isTask && !/^[ \t]*[-*+] /.test(line) && !ORDERED_ITEM_REGEX.test(line)) {
+			// Continuation text of an item, or the end of the list
+			if (width === 0) stack.length = 0;
+			return;
+		}
+
+		while (stack.length > 0 && stack[stack.length - 1].width >= width) {
+			stack.pop();
+		}
+		if (isTask) {
+			const parent = [...stack].reverse().find(item => item.isTask);
+			if (parent) parents.set(index, parent.index);
+		}
+		stack.push({ index, width, isTask });
+	});
+	return parents;
+}
+
+function isTaskDone(line: string): boolean {
+	const task = line.match(TASK_LINE_REGEX);
+	return task !== null && getTaskState(task[2]).name === 'done';
+}
+
+function isTaskCancelled(line: string): boolean {
+	const task = line.match(TASK_LINE_REGEX);
+	return task !== null && getTaskState(task[2]).name === 'cancelled';
+}
+
+/**
+ * Progress of every task that has tasks below it (at any depth), keyed by
+ * line index
+ */
+export function computeTaskProgress(lines: string[]): Map<number, TaskProgress> {
+	const parents = getTaskParents(lines);
+	const progress = new Map<number, TaskProgress>();
+	for (const index of parents.keys()) {
+		if (isTaskCancelled(lines[index])) continue;
+		const done = isTaskDone(lines[index]);
+		for (let parent = parents.get(index); parent !== undefined; parent = parents.get(parent)) {
+			const counts = progress.get(parent) ?? { done: 0, total: 0 };
+			counts.total++;
+			if (done) counts.done++;
+			progress.set(parent, counts);
+		}
+	}
+	return progress;
+}
+
+/**
+ * New states of the parent tasks after the task at `lineIndex` changed
+ * (`lines` already has the new state), keyed by line index: a parent whose
+ * child tasks are all done (cancelled ones aside) is checked, and a checked
+ * parent with an open child is unchecked. Changes go up as far as they
+ * apply.
+ */
+export function propagateTaskCompletion(lines: string[], lineIndex: number): Map<number, string> {
+	const parents = getTaskParents(lines);
+	const updated = [...lines];
+	const updates = new Map<number, string>();
+	for (let parent = parents.get(lineIndex); parent !== undefined; parent = parents.get(parent)) {
+		const children = [...parents.keys()]
+			.filter(index => parents.get(index) === parent && !isTaskCancelled(updated[index]));
+		if (children.length === 0) break;
+
+		const allDone = children.every(index => isTaskDone(updated[index]));
+		if (allDone === isTaskDone(updated[parent])) break;
+		const symbol = allDone ? 'x' : ' ';
+		updated[parent] = updated[parent].replace(TASK_LINE_REGEX, `$1- [${symbol}] `);
+		updates.set(parent, symbol);
+	}
+	return updates;
+}
+
+/**
+ * New text of the lines that change when the task at `lineIndex` moves to
+ * `symbol`, keyed by line index. The task line goes through setTaskSymbol
+ * (so its value may carry the next occurrence of a recurring task), and with
+ * `propagate` its parents follow based on the lines after that change.
+ */
+export function applyTaskSymbol(lines: string[], lineIndex: number, symbol: string, today: string, propagate: boolean): Map<number, string> {
+	const changed = setTaskSymbol(lines[lineIndex], symbol, today);
+	const updates = new Map([[lineIndex, changed]]);
+	if (!propagate) return updates;
+
+	// A next occurrence is inserted above the task, which moves it down a line
+	const inserted = changed.split('\n');
+	const updated = [...lines.slice(0, lineIndex), ...inserted, ...lines.slice(lineIndex + 1)];
+	for (const [index, parentSymbol] of propagateTaskCompletion(updated, lineIndex + inserted.length - 1)) {
+		// Parents come before the task, so their indices are the same in `lines`
+		updates.set(index, setTaskSymbol(lines[index], parentSymbol, today));
+	}
+	return updates;
+}
@@ -0,0 +1,120 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { SectionConfig, DEFAULT_SECTIONS, cloneSections, getOrderedSections, validateSections } from './sections';
+
+// Frontmatter key that records which template a note was created from
+export const TEMPLATE_FRONTMATTER_KEY = 'survey-note-template';
+
+/**
+ * Named note template
+ * - id: value written to the `survey-note-template` frontmatter property
+ * - layout: value written to the `survey-note-view` frontmatter property
+ */
+export interface NoteTemplate {
+	id: string;
+	name: string;
+	layout: string;
+	sections: SectionConfig[];
+}
+
+/**
+ * Built-in templates
+ */
+export const DEFAULT_TEMPLATES: NoteTemplate[] = [
+	{
+		id: 'paper',
+		name: 'Paper survey',
+		layout: 'note',
+		sections: DEFAULT_SECTIONS,
+	},
+	{
+		id: 'meeting',
+		name: 'Meeting',
+		layout: 'note',
+		sections: [
+			{ name: 'Agenda', order: 0, row: 1, span: 3, height: 'fixed' },
+			{ name: 'Attendees', order: 1, row: 1, span: 3, height: 'fixed' },
+			{ name: 'Notes', order: 2, row: 2, span: 4, height: 'grow' },
+			{ name: 'Action Items', order: 3, row: 2, span: 2, height: 'grow', defaultText: '- [ ] ' },
+		],
+	},
+	{
+		id: 'experiment',
+		name: 'Experiment log',
+		layout: 'note',
+		sections: [
+			{ name: 'Hypothesis', order: 0, row: 1, span: 3, height: 'fixed' },
+			{ name: 'Method', order: 1, row: 1, span: 3, height: 'fixed' },
+			{ name: 'Results', order: 2, row: 2, span: 3, height: 'grow' },
+			{ name: 'Discussion', order: 3, row: 2, span: 3, height: 'grow' },
+		],
+	},
+];
+
+/**
+ * Deep copy a template list so that settings edits never touch the defaults
+ */
+export function cloneTemplates(templates: NoteTemplate[]): NoteTemplate[] {
+	return templates.map(template => ({ ...template, sections: cloneSections(template.sections) }));
+}
+
+/**
+ * Find a template by the id recorded in frontmatter
+ */
+export function findTemplate(templates: NoteTemplate[], id: unknown): NoteTemplate | undefined {
+	if (typeof id !== 'string') return undefined;
+	return templates.find(template => template.id === id.trim());
+}
+
+/**
+ * Check whether a template list can be saved
+ */
+export function validateTemplates(templates: NoteTemplate[]): string | null {
+	const ids = new Set<string>();
+	for (const template of templates) {
+		if (!/^[\w-]+$/.test(template.id)) {
+			return `Template id must use letters, numbers, "-" or "_": ${template.id}`;
+		}
+		if (ids.has(template.id)) {
+			return `Duplicate template id: ${template.id}`;
+		}
+		ids.add(template.id);
+		const error = validateSections(template.sections);
+		if (error) {
+			return `${template.name}: ${error}`;
+		}
+	}
+	return null;
+}
+
+/**
+ * Build the initial Markdown for a note created from a template
+ */
+export function buildTemplateContent(template: NoteTemplate): string {
+	let content = `---\nsurvey-note-view: ${template.layout || 'note'}\n${TEMPLATE_FRONTMATTER_KEY}: ${template.id}\n---\n\n`;
+	for (const section of getOrderedSections(template.sections)) {
+		content += `# ${section.name}\n${section.defaultText ?? ''}\n\n`;
+	}
+	return content;
+}
+
+/**
+ * Picker shown by the "新規SurveyNote作成" action
+ */
+export class TemplateSuggestModal extends FuzzySuggestModal<NoteTemplate> {
+	constructor(app: App, private templates: NoteTemplate[], private onChoose: (template: NoteTemplate) => void) {
+		super(app);
+		this.setPlaceholder('テンプレートを選択');
+	}
+
+	getItems(): NoteTemplate[] {
+		return this.templates;
+	}
+
+	getItemText(template: NoteTemplate): string {
+		return template.name;
+	}
+
+	onChooseItem(template: NoteTemplate): void {
+		this.onChoose(template);
+	}
+}
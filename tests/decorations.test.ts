@@ -0,0 +1,166 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { EditorSelection, EditorState, RangeSet, StateField, TransactionSpec } from "@codemirror/state";
+import { DecorationSet } from "@codemirror/view";
+import { markdown, markdownLanguage } from "@codemirror/lang-markdown";
+import { ensureSyntaxTree } from "@codemirror/language";
+import { Tree } from "@lezer/common";
+import SurveyNotePlugin from "../main";
+import { getListFoldAnchors } from "../lists";
+import { surveyNoteMarkdown } from "../syntax";
+import { createInternalLinkExtension } from "../view";
+
+const plugin = {
+	getCodeBlockCollapseSettings: () => ({ defaultState: 'expanded', threshold: 0 })
+} as unknown as SurveyNotePlugin;
+
+// One of each block construct, 20 lines
+const SAMPLE = [
+	"## Heading",
+	"Text with [[link]] and $x$.",
+	"",
+	"1. one",
+	"1. two",
+	"    - [ ] task",
+	"    - [x] done",
+	"- bullet",
+	"    - child",
+	"",
+	"```js",
+	"const a = 1;",
+	"```",
+	"",
+	"| a | b |",
+	"| - | - |",
+	"| 1 | 2 |",
+	"",
+	"$$ x^2 $$",
+	"",
+];
+
+function repeatSample(count: number): string {
+	return Array.from({ length: count }, () => SAMPLE).flat().join("\n");
+}
+
+/**
+ * A section editor state with `doc` (its list items at the `folds` line
+ * indexes folded) and its block state field
+ */
+function createSection(doc: string, folds: number[] = [], selection = 0) {
+	const extensions = createInternalLinkExtension(plugin, {}, getListFoldAnchors(doc.split("\n"), folds));
+	const field = extensions.find(extension => extension instanceof StateField) as StateField<Record<string, unknown>>;
+	const state = EditorState.create({
+		doc,
+		selection: EditorSelection.cursor(selection),
+		extensions: [markdown({ base: markdownLanguage, extensions: surveyNoteMarkdown }), extensions]
+	});
+	// Let the block decorations catch up with a complete parse
+	ensureSyntaxTree(state, state.doc.length, 10000);
+	return { state: state.update({}).state, field };
+}
+
+/**
+ * Assert that the block state after `specs` matches a section opened with
+ * the resulting text
+ */
+function assertMatchesFreshState(doc: string, specs: TransactionSpec[]) {
+	const section = createSection(doc);
+	let state = section.state;
+	for (const spec of specs) {
+		state = state.update(spec).state;
+	}
+	const expected = createSection(state.doc.toString(), [], state.selection.main.head);
+	const actualField = state.field(section.field);
+	const expectedField = expected.state.field(expected.field);
+	for (const key of ["blocks", "hiddenRanges", "listStructure", "orderedNumbers", "taskProgress"]) {
+		assert.deepEqual(actualField[key], expectedField[key], key);
+	}
+	assert.ok(RangeSet.eq([actualField.decorations as DecorationSet], [expectedField.decorations as DecorationSet]), "decorations");
+}
+
+test("edits update the blocks and lists like a fresh section", () => {
+	const doc = repeatSample(3);
+	const listStart = doc.indexOf("1. one");
+	const codeStart = doc.indexOf("```js");
+	const cases: TransactionSpec[][] = [
+		[{ changes: { from: listStart + 3, insert: "x" } }],
+		[{ changes: { from: listStart + 6, insert: "\n1. new" } }],
+		[{ changes: { from: listStart, to: listStart + 7 } }],
+		[{ changes: { from: doc.indexOf("\n", codeStart), insert: "\nmore code" } }],
+		[{ changes: { from: codeStart, to: codeStart + 3 } }],
+		[{ changes: { from: 0, insert: "```\n" } }],
+		[{ changes: { from: doc.indexOf("| 1 |"), insert: "| 0 | 0 |\n" } }],
+		[{ changes: { from: codeStart, insert: "x" }, selection: { anchor: codeStart + 1 } }],
+		[{ selection: { anchor: codeStart + 4 } }, { changes: { from: doc.length, insert: "\n1. end" } }],
+	];
+	for (const specs of cases) {
+		assertMatchesFreshState(doc, specs);
+	}
+});
+
+test("edits next to a folded item keep its children hidden", () => {
+	const doc = repeatSample(2);
+	const twoEnd = doc.indexOf("1. two") + 6;
+	const cases: TransactionSpec[] = [
+		{ changes: { from: twoEnd, insert: "!" } },
+		{ changes: { from: 0, insert: "new line\n" } },
+		{ changes: { from: doc.indexOf("- bullet"), insert: "    - moved\n" } },
+		{ changes: { from: doc.indexOf("    - [x] done"), insert: "\n" } },
+	];
+	for (const spec of cases) {
+		// `1. two` is folded
+		const section = createSection(doc, [4]);
+		const state = section.state.update(spec).state;
+		const text = state.doc.toString();
+		const expected = createSection(text, [state.doc.lineAt(text.indexOf("1. two")).number - 1], state.selection.main.head);
+		const actualField = state.field(section.field);
+		const expectedField = expected.state.field(expected.field);
+		for (const key of ["hiddenRanges", "listStructure"]) {
+			assert.deepEqual(actualField[key], expectedField[key], key);
+		}
+		assert.ok(RangeSet.eq([actualField.decorations as DecorationSet], [expectedField.decorations as DecorationSet]), "decorations");
+	}
+});
+
+/**
+ * Number of lines of the resulting state that syntax tree walks visit
+ * while `run` runs
+ */
+function countVisitedLines(run: () => EditorState): number {
+	const iterate = Tree.prototype.iterate;
+	const ranges: Array<{ from: number, to: number }> = [];
+	Tree.prototype.iterate = function (this: Tree, spec: Parameters<Tree["iterate"]>[0]) {
+		ranges.push({ from: spec.from ?? 0, to: spec.to ?? this.length });
+		return iterate.call(this, spec);
+	};
+	let state: EditorState;
+	try {
+		state = run();
+	} finally {
+		Tree.prototype.iterate = iterate;
+	}
+	const doc = state.doc;
+	return ranges.reduce((count, { from, to }) =>
+		count + doc.lineAt(Math.min(to, doc.length)).number - doc.lineAt(Math.min(from, doc.length)).number + 1, 0);
+}
+
+test("typing in a 10k-line section does not rescan the whole section", () => {
+	const doc = repeatSample(500);
+	assert.equal(doc.split("\n").length, 10000);
+	let state = createSection(doc).state;
+	const buildLines = countVisitedLines(() => createSection(doc).state);
+	assert.ok(buildLines >= 10000, `building the section visited ${buildLines} lines`);
+
+	// A letter typed in a list item, a paragraph and a code block in the middle
+	const middle = doc.length / 2;
+	const positions = ["1. one", "Text with", "const a"].map(text => doc.indexOf(text, middle) + text.length);
+	for (const [index, pos] of positions.entries()) {
+		// After the letters typed before it
+		const from = pos + index;
+		const lines = countVisitedLines(() => {
+			state = state.update({ changes: { from, insert: "a" }, selection: { anchor: from + 1 } }).state;
+			return state;
+		});
+		assert.ok(lines < 50, `typing at line ${state.doc.lineAt(from).number} visited ${lines} lines`);
+	}
+});
@@ -0,0 +1,55 @@
+import { JSDOM } from "jsdom";
+
+type ElementOptions = { cls?: string | string[], text?: string, attr?: Record<string, string>, title?: string };
+
+/**
+ * A browser window for editor views, with the element helpers Obsidian adds
+ * to the DOM (createDiv, addClass, setText...)
+ */
+export function installDom(): Window {
+	const { window } = new JSDOM("<!DOCTYPE html><body></body>", { pretendToBeVisual: true });
+	Object.assign(globalThis, {
+		window,
+		document: window.document,
+		navigator: window.navigator,
+		MutationObserver: window.MutationObserver,
+		requestAnimationFrame: window.requestAnimationFrame,
+		cancelAnimationFrame: window.cancelAnimationFrame,
+	});
+
+	const helpers = {
+		createEl(this: HTMLElement, tag: string, options: ElementOptions | string = {}) {
+			const element = window.document.createElement(tag);
+			const { cls, text, attr, title }: ElementOptions = typeof options === "string" ? { cls: options } : options;
+			if (cls) element.className = Array.isArray(cls) ? cls.join(" ") : cls;
+			if (text !== undefined) element.textContent = text;
+			if (title !== undefined) element.title = title;
+			for (const [name, value] of Object.entries(attr ?? {})) element.setAttribute(name, value);
+			this.appendChild(element);
+			return element;
+		},
+		createDiv(this: HTMLElement, options?: ElementOptions | string) {
+			return helpers.createEl.call(this, "div", options);
+		},
+		createSpan(this: HTMLElement, options?: ElementOptions | string) {
+			return helpers.createEl.call(this, "span", options);
+		},
+		addClass(this: HTMLElement, ...classes: string[]) {
+			this.classList.add(...classes);
+		},
+		removeClass(this: HTMLElement, ...classes: string[]) {
+			this.classList.remove(...classes);
+		},
+		toggleClass(this: HTMLElement, cls: string, value: boolean) {
+			this.classList.toggle(cls, value);
+		},
+		setText(this: HTMLElement, text: string) {
+			this.textContent = text;
+		},
+		empty(this: HTMLElement) {
+			this.replaceChildren();
+		},
+	};
+	Object.assign(window.HTMLElement.prototype, helpers);
+	return window as unknown as Window;
+}
@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { EditorState } from "@codemirror/state";
+import { markdown, markdownLanguage } from "@codemirror/lang-markdown";
+import { computeOrderedNumbers, endsLists, renumberOrderedLists, stripListFoldMarkers } from "../lists";
+import { surveyNoteMarkdown } from "../syntax";
+import { createListInputHandler } from "../view";
+
+function createState(doc: string): EditorState {
+	return EditorState.create({
+		doc,
+		extensions: [markdown({ base: markdownLanguage, extensions: surveyNoteMarkdown }), ...createListInputHandler()]
+	});
+}
+
+test("code lines are not numbered and end the lists they are not indented into", () => {
+	const lines = ["1. a", "```", "1. code", "```", "1. b", "    ```", "    1. code", "    ```", "1. c"];
+	assert.deepEqual(computeOrderedNumbers(lines, new Set([1, 2, 3, 5, 6, 7])), new Map([[0, 1], [4, 1], [8, 2]]));
+});
+
+test("only unindented text ends lists", () => {
+	assert.equal(endsLists("text"), true);
+	assert.equal(endsLists("    continued"), false);
+	assert.equal(endsLists("1. item"), false);
+	assert.equal(endsLists(""), false);
+});
+
+test("renumbering offsets are relative to the first line", () => {
+	assert.deepEqual(renumberOrderedLists(["1. a", "1. b"]), [{ from: 5, to: 6, insert: "2" }]);
+});
+
+test("typing renumbers the list but not the code below it", () => {
+	const state = createState("1. a\n2. b\n\n```\n1. one\n1. one\n```\n");
+	const tr = state.update({ changes: { from: 0, insert: "1. new\n" } });
+	assert.equal(tr.state.doc.toString(), "1. new\n2. a\n3. b\n\n```\n1. one\n1. one\n```\n");
+});
+
+test("typing renumbers only the list containing the change", () => {
+	const state = createState("1. a\n1. b\n\ntext\n\n1. c\n1. d\n");
+	const tr = state.update({ changes: { from: 3, insert: "x" } });
+	assert.equal(tr.state.doc.toString(), "1. xa\n2. b\n\ntext\n\n1. c\n1. d\n");
+});
+
+test("code inside a list item keeps its numbers", () => {
+	const state = createState("1. a\n    ```\n    1. one\n    1. one\n    ```\n1. b\n");
+	const tr = state.update({ changes: { from: 3, insert: "x" } });
+	assert.equal(tr.state.doc.toString(), "1. xa\n    ```\n    1. one\n    1. one\n    ```\n2. b\n");
+});
+
+test("fold markers inside fenced code are kept", () => {
+	const text = "- a <!--COLLAPSED-->\n    - b <!--HIDDEN-->\n```\n- c <!--COLLAPSED-->\n```\n- d";
+	assert.deepEqual(stripListFoldMarkers(text), {
+		text: "- a \n    - b \n```\n- c <!--COLLAPSED-->\n```\n- d",
+		collapsedLines: [0]
+	});
+});
@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { mergeText } from "../merge";
+
+const BASE = ["one", "two", "three", "four"].join("\n");
+
+test("changes to different lines are merged", () => {
+	const local = ["one!", "two", "three", "four"].join("\n");
+	const remote = ["one", "two", "three", "four!", "five"].join("\n");
+	assert.deepEqual(mergeText(BASE, local, remote), {
+		text: ["one!", "two", "three", "four!", "five"].join("\n"),
+		conflict: false,
+	});
+});
+
+test("the same change on both sides is taken once", () => {
+	const changed = ["one", "2", "three", "four"].join("\n");
+	assert.deepEqual(mergeText(BASE, changed, changed), { text: changed, conflict: false });
+});
+
+test("different changes to the same lines conflict", () => {
+	const local = ["one", "local", "three", "four"].join("\n");
+	const remote = ["one", "remote", "three", "four"].join("\n");
+	assert.deepEqual(mergeText(BASE, local, remote), {
+		text: ["one", "<<<<<<< SurveyNote", "local", "=======", "remote", ">>>>>>> File", "three", "four"].join("\n"),
+		conflict: true,
+	});
+});
+
+test("lines deleted on one side stay deleted", () => {
+	const local = ["one", "four"].join("\n");
+	const remote = ["one", "two", "three", "four", "five"].join("\n");
+	assert.deepEqual(mergeText(BASE, local, remote), { text: ["one", "four", "five"].join("\n"), conflict: false });
+});
+
+test("deleting lines the other side changed conflicts", () => {
+	const local = ["one", "four"].join("\n");
+	const remote = ["one", "two!", "three", "four"].join("\n");
+	assert.deepEqual(mergeText(BASE, local, remote), {
+		text: ["one", "<<<<<<< SurveyNote", "=======", "two!", "three", ">>>>>>> File", "four"].join("\n"),
+		conflict: true,
+	});
+});
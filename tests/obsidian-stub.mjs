@@ -0,0 +1,48 @@
+// The parts of the Obsidian API the tested modules load. Only `moment`,
+// `stripHeading` and the events of `Component` do real work; the rest exist
+// so the modules can be imported.
+import moment from "moment";
+
+export { moment };
+
+export class Component {
+	_unloads = [];
+
+	load() {}
+	unload() {
+		for (const callback of this._unloads.splice(0)) callback();
+	}
+	register(callback) {
+		this._unloads.push(callback);
+	}
+	// Like Obsidian, `ref.e` is the Events object the listener was added to
+	registerEvent(ref) {
+		this.register(() => ref.e.offref(ref));
+	}
+}
+export class ItemView extends Component {}
+export class HoverPopover extends Component {}
+export class MarkdownView extends ItemView {}
+export class Modal {}
+export class FuzzySuggestModal extends Modal {}
+export class Setting {}
+export class Notice {}
+export class TFile {}
+
+export const Keymap = { isModEvent: () => false };
+export const MarkdownRenderer = { render: async () => {} };
+
+export function stripHeading(heading) {
+	return heading.replace(/[!"#$%&()*+,.:;<=>?@^`{|}~/[\]\\]/g, " ").replace(/\s+/g, " ").trim();
+}
+export function prepareFuzzySearch() {
+	return () => null;
+}
+export function parseFrontMatterAliases() {
+	return null;
+}
+export async function loadPrism() {
+	return null;
+}
+export function renderMath() {}
+export async function finishRenderMath() {}
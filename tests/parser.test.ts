@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { getSectionContents, parseNote, updateSections } from "../parser";
+
+const NAMES = ["Purpose", "Method", "Summary"];
+
+const NOTE = [
+	"---",
+	"survey-note-view: true",
+	"# Purpose: a YAML comment, not a heading",
+	"---",
+	"Text before the first section",
+	"# Purpose",
+	"",
+	"Why",
+	"# Background",
+	"Unknown heading",
+	"",
+	"# Method",
+	"```",
+	"# Summary",
+	"```",
+	"How  ",
+	"",
+	"",
+	"# Summary",
+	"Result",
+].join("\n");
+
+test("an unchanged note is written back byte for byte", () => {
+	const note = parseNote(NOTE, NAMES);
+	assert.equal(updateSections(note, getSectionContents(note), NAMES), NOTE);
+});
+
+test("unknown headings and headings in code belong to the section above them", () => {
+	assert.deepEqual(getSectionContents(parseNote(NOTE, NAMES)), {
+		Purpose: "Why\n# Background\nUnknown heading",
+		Method: "```\n# Summary\n```\nHow",
+		Summary: "Result",
+	});
+});
+
+test("only the changed sections are rewritten", () => {
+	const note = parseNote(NOTE, NAMES);
+	const text = updateSections(note, { ...getSectionContents(note), Method: "New method" }, NAMES);
+	assert.equal(text, NOTE.replace("```\n# Summary\n```\nHow", "New method"));
+});
+
+test("the frontmatter and the text before the sections are kept", () => {
+	const note = parseNote(NOTE, NAMES);
+	const text = updateSections(note, { Purpose: "New purpose" }, NAMES);
+	const preamble = NOTE.substring(0, NOTE.indexOf("# Purpose\n"));
+	assert.ok(text.startsWith(preamble + "# Purpose\n\nNew purpose\n\n# Method"));
+});
+
+test("missing sections are inserted in schema order", () => {
+	const note = parseNote("# Purpose\nWhy\n\n# Summary\nResult", NAMES);
+	const text = updateSections(note, { Method: "How" }, NAMES);
+	assert.equal(text, "# Purpose\nWhy\n\n# Method\nHow\n\n# Summary\nResult");
+});
@@ -0,0 +1,39 @@
+import esbuild from "esbuild";
+import process from "process";
+import path from "path";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { fileURLToPath } from "url";
+
+// Bundle every *.test.ts with an Obsidian stub and run them once with node:test
+const dir = path.dirname(fileURLToPath(import.meta.url));
+const outdir = mkdtempSync(path.join(tmpdir(), "survey-note-tests-"));
+
+try {
+	const entryPoints = readdirSync(dir)
+		.filter(name => name.endsWith(".test.ts"))
+		.map(name => path.join(dir, name));
+	await esbuild.build({
+		entryPoints,
+		outdir,
+		bundle: true,
+		alias: {
+			obsidian: path.join(dir, "obsidian-stub.mjs"),
+		},
+		// Loaded from node_modules: it reads its own files at runtime
+		external: ["jsdom"],
+		platform: "node",
+		format: "cjs",
+		target: "node16",
+		logLevel: "warning",
+	});
+	const files = readdirSync(outdir).map(name => path.join(outdir, name));
+	const result = spawnSync(process.execPath, ["--test", ...files], {
+		stdio: "inherit",
+		env: { ...process.env, NODE_PATH: path.join(dir, "..", "node_modules") },
+	});
+	process.exitCode = result.status ?? 1;
+} finally {
+	rmSync(outdir, { recursive: true, force: true });
+}
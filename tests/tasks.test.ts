@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { applyTaskSymbol } from "../tasks";
+
+test("checking the last child checks its parent", () => {
+	const lines = [
+		"- [ ] parent",
+		"    - [x] first",
+		"    - [ ] last",
+	];
+	assert.deepEqual(applyTaskSymbol(lines, 2, "x", "2024-01-02", true), new Map([
+		[2, "    - [x] last ✅ 2024-01-02"],
+		[0, "- [x] parent ✅ 2024-01-02"],
+	]));
+});
+
+test("checking the last recurring child leaves its parent open", () => {
+	const lines = [
+		"- [ ] parent",
+		"    - [x] first",
+		"    - [ ] last 🔁 every day 📅 2024-01-01",
+	];
+	// The next occurrence is a new open child of the same parent
+	assert.deepEqual(applyTaskSymbol(lines, 2, "x", "2024-01-02", true), new Map([
+		[2, "    - [ ] last 🔁 every day 📅 2024-01-02\n    - [x] last 🔁 every day 📅 2024-01-01 ✅ 2024-01-02"],
+	]));
+});
+
+test("unchecking a child reopens its checked parents", () => {
+	const lines = [
+		"- [x] goal ✅ 2024-01-01",
+		"    - [x] step ✅ 2024-01-01",
+		"        - [x] detail ✅ 2024-01-01",
+	];
+	assert.deepEqual(applyTaskSymbol(lines, 2, " ", "2024-01-02", true), new Map([
+		[2, "        - [ ] detail"],
+		[1, "    - [ ] step"],
+		[0, "- [ ] goal"],
+	]));
+});
+
+test("propagation can be turned off", () => {
+	const lines = [
+		"- [ ] parent",
+		"    - [ ] only",
+	];
+	assert.deepEqual(applyTaskSymbol(lines, 1, "x", "2024-01-02", false), new Map([
+		[1, "    - [x] only ✅ 2024-01-02"],
+	]));
+});
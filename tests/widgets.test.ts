@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { EditorSelection, EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { markdown, markdownLanguage } from "@codemirror/lang-markdown";
+import { TFile } from "obsidian";
+import SurveyNotePlugin from "../main";
+import { surveyNoteMarkdown } from "../syntax";
+import { createInternalLinkExtension } from "../view";
+import { installDom } from "./dom";
+
+const window = installDom();
+
+/**
+ * A plugin whose vault holds `Note.md`, with the `modify` listeners
+ * registered on the vault
+ */
+function createPlugin() {
+	const note = Object.assign(new TFile(), { path: "Note.md", basename: "Note", extension: "md" });
+	const listeners = new Set<unknown>();
+	const vault = {
+		on: (name: string, callback: unknown) => {
+			const ref = { e: vault, name, callback };
+			listeners.add(ref);
+			return ref;
+		},
+		offref: (ref: unknown) => listeners.delete(ref),
+		cachedRead: async () => "Embedded text",
+		getAbstractFileByPath: () => null,
+	};
+	const plugin = {
+		app: {
+			vault,
+			metadataCache: {
+				getFirstLinkpathDest: (path: string) => path === "Note" ? note : null,
+				getFileCache: () => null,
+			},
+		},
+		getCodeBlockCollapseSettings: () => ({ defaultState: 'expanded', threshold: 0 }),
+	} as unknown as SurveyNotePlugin;
+	return { plugin, listeners };
+}
+
+test("an embed keeps one vault listener when redecorated and drops it with the editor", () => {
+	const { plugin, listeners } = createPlugin();
+	const doc = "![[Note]]\n\nText";
+	const view = new EditorView({
+		state: EditorState.create({
+			doc,
+			selection: EditorSelection.cursor(doc.length),
+			extensions: [
+				markdown({ base: markdownLanguage, extensions: surveyNoteMarkdown }),
+				createInternalLinkExtension(plugin, {}, [], () => "Survey.md")
+			]
+		}),
+		parent: window.document.body
+	});
+	assert.equal(view.dom.querySelectorAll(".transclusion-widget").length, 1);
+	assert.equal(listeners.size, 1);
+
+	// The same text written over the embed is decorated with an equal
+	// widget, which takes over the DOM
+	view.dispatch({ changes: { from: 0, to: "![[Note]]".length, insert: "![[Note]]" } });
+	assert.equal(view.dom.querySelectorAll(".transclusion-widget").length, 1);
+	assert.equal(listeners.size, 1);
+
+	view.destroy();
+	assert.equal(listeners.size, 0);
+});
@@ -1,24 +1,89 @@
-import { ItemView, WorkspaceLeaf, TFile, ViewStateResult, Notice } from "obsidian";
-import { EditorState, StateField, StateEffect, Transaction } from "@codemirror/state";
-import { EditorView, keymap, Decoration, DecorationSet, WidgetType } from "@codemirror/view";
+import { ItemView, WorkspaceLeaf, TFile, ViewStateResult, Notice, MarkdownView, stripHeading, HoverParent, HoverPopover, Keymap, MarkdownRenderer, Component, renderMath, finishRenderMath, moment } from "obsidian";
+import { EditorState, StateField, StateEffect, Transaction, Prec, Text } from "@codemirror/state";
+import { EditorView, keymap, Decoration, DecorationSet, WidgetType, ViewPlugin, ViewUpdate, PluginValue } from "@codemirror/view";
+import { autocompletion } from "@codemirror/autocomplete";
 import { markdown, markdownLanguage } from "@codemirror/lang-markdown";
 import { defaultKeymap, indentWithTab, undo, redo, undoDepth, redoDepth, history, historyKeymap } from "@codemirror/commands";
-import { HighlightStyle, syntaxHighlighting, LanguageSupport } from "@codemirror/language";
+import { HighlightStyle, syntaxHighlighting, LanguageSupport, syntaxTree } from "@codemirror/language";
 import { tags } from "@lezer/highlight";
-import { RangeSet, Range } from "@codemirror/state";
+import { IterMode, SyntaxNode, Tree } from "@lezer/common";
+import { RangeSet, RangeValue, Range } from "@codemirror/state";
 import SurveyNotePlugin from "main";
+import { SectionConfig, GRID_COLUMNS, buildGridLayout, getOrderedSections } from "./sections";
+import { parseNote, getBodyStart, getSectionContents, updateSections } from "./parser";
+import { mergeText } from "./merge";
+import { ORDERED_ITEM_REGEX, LIST_INDENT, OutlineOperation, endsLists, computeOrderedNumbers, renumberOrderedLists, getNumberForLevel, getIndentWidth, getListFoldAnchors, resolveListFoldAnchors, getListItemRange, getParentListItem, applyOutlineOperation } from "./lists";
+import { NoteTemplate, TEMPLATE_FRONTMATTER_KEY, TemplateSuggestModal, buildTemplateContent, findTemplate } from "./templates";
+import { highlightCode, renderHighlightedCode, renderHighlightedLines } from "./highlight";
+import { CodeBlock, CodeBlockOptions, parseInfoString, getCodeBlock, findCodeBlocks, getCodeBlockKey, isCodeBlockCollapsed } from "./codeblocks";
+import { createLinkCompletionSource, parseInternalLink, findSubpathLine, extractSubpath } from "./links";
+import { surveyNoteMarkdown, getSyntaxTree } from "./syntax";
+import { TableOperation, parseTable, formatTable, getCellAt, getCellRange, applyTableOperation } from "./tables";
+import { ImageAlign, ImageOptions, IMAGE_ALIGNS, ImageCaptionModal, parseImageOptions, formatImageOptions } from "./images";
+import { TASK_LINE_REGEX, TaskMetadataField, TaskMetadataKind, TaskProgress, getTaskState, parseTaskCycle, getNextTaskSymbol, parseTaskMetadata, computeTaskProgress, applyTaskSymbol } from "./tasks";
 
 // A unique key to identify the view
 export const VIEW_TYPE_SURVEYNOTE = "survey-note-view";
 
-// Define section titles as constants
-const SECTIONS = {
-    BACKGROUND: "Purpose",
-    SUMMARY: "Summary",
-    CONTENT1: "Content1",
-    CONTENT2: "Content2",
-    CONTENT3: "Content3",
+// Delay before edits are written to the file
+const SAVE_DELAY = 1000;
+// Delay before edits are pushed to a Markdown view of the same file
+const LIVE_SYNC_DELAY = 50;
+// File extensions of pasted image types whose subtype is not the usual extension
+const PASTED_IMAGE_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/svg+xml': 'svg',
 };
+// Sections shown in the hover preview of a survey note
+const PREVIEW_SECTIONS = ['Purpose', 'Summary'];
+// Embeds `![[...]]` shown as images or media players; other embeds are transcluded notes
+const IMAGE_EXTENSION_REGEX = /\.(png|jpe?g|gif|bmp|svg|webp|avif)$/i;
+
+type MediaKind = 'pdf' | 'audio' | 'video';
+
+/**
+ * The part of Obsidian's internal plugin registry (not in the public API)
+ * used to read the Page preview plugin's modifier key settings
+ */
+interface InternalPluginsApp {
+    internalPlugins?: {
+        getPluginById?(id: string): {
+            enabled: boolean;
+            instance?: { overrides?: Record<string, boolean | undefined> };
+        } | null;
+    };
+}
+
+const MEDIA_EXTENSIONS: Record<string, MediaKind> = {
+    pdf: 'pdf',
+    mp3: 'audio', wav: 'audio', m4a: 'audio', ogg: 'audio', flac: 'audio', '3gp': 'audio',
+    mp4: 'video', webm: 'video', ogv: 'video', mov: 'video', mkv: 'video',
+};
+
+/**
+ * Kind of media a file path points to, or null if it is not a PDF, audio or video file
+ */
+function getMediaKind(path: string): MediaKind | null {
+    const match = path.match(/\.([^./]+)$/);
+    return match ? MEDIA_EXTENSIONS[match[1].toLowerCase()] ?? null : null;
+}
+
+/**
+ * Smallest single change that turns `current` into `text`
+ * (common prefix and suffix are left untouched so cursors keep their place)
+ */
+function getMinimalChange(current: string, text: string): { from: number, to: number, insert: string } {
+    let start = 0;
+    while (start < current.length && start < text.length && current[start] === text[start]) {
+        start++;
+    }
+    let end = 0;
+    while (end < current.length - start && end < text.length - start &&
+           current[current.length - 1 - end] === text[text.length - 1 - end]) {
+        end++;
+    }
+    return { from: start, to: current.length - end, insert: text.substring(start, text.length - end) };
+}
 
 const markdownHighlighting = HighlightStyle.define([
     { tag: tags.heading1, class: "cm-heading-1" },
@@ -42,7 +107,6 @@ class MarkdownLinkWidget extends WidgetType {
     }
 
     toDOM() {
-        console.log('Creating DOM element for markdown link:', this.linkText, this.url);
         const span = document.createElement('span');
         span.className = 'markdown-link-widget';
         span.textContent = this.linkText;
@@ -51,7 +115,6 @@ class MarkdownLinkWidget extends WidgetType {
         span.style.color = 'var(--text-accent)';
         span.style.textDecoration = 'none';
         span.addEventListener('click', (e) => {
-            console.log('Markdown link clicked:', this.url);
             e.preventDefault();
             this.openUrl();
         });
@@ -67,11 +130,31 @@ class MarkdownLinkWidget extends WidgetType {
     }
 
     private openUrl() {
-        console.log('Opening URL:', this.url);
         window.open(this.url, '_blank');
     }
 }
 
+class InternalLinkWidget extends WidgetType {
+    constructor(private display: string, private linkTarget: string) {
+        super();
+    }
+
+    eq(other: InternalLinkWidget) {
+        return other.display === this.display && other.linkTarget === this.linkTarget;
+    }
+
+    toDOM() {
+        // Clicks are handled by the section's link click handler through the data attributes
+        const span = document.createElement('span');
+        span.className = 'internal-link-mark internal-link-widget';
+        span.textContent = this.display;
+        span.title = `Open "${this.linkTarget}"`;
+        span.setAttribute('data-filename', this.linkTarget);
+        span.setAttribute('data-link-type', 'internal');
+        return span;
+    }
+}
+
 class ListBulletWidget extends WidgetType {
     constructor(
         private indent: string, 
@@ -134,7 +217,6 @@ class ListBulletWidget extends WidgetType {
             chevron.addEventListener('click', (e) => {
                 e.preventDefault();
                 e.stopPropagation();
-                console.log('Chevron clicked for line:', this.lineNumber, 'collapsed:', this.isCollapsed);
                 
                 // Dispatch custom event to toggle collapse state
                 const toggleEvent = new CustomEvent('toggleListCollapse', {
@@ -178,23 +260,97 @@ class ListBulletWidget extends WidgetType {
     }
 }
 
+class OrderedListWidget extends WidgetType {
+    constructor(
+        private indent: string,
+        private number: number,
+        private delimiter: string,
+        private hasChildren: boolean = false,
+        private isCollapsed: boolean = false,
+        private lineNumber: number = 0
+    ) {
+        super();
+    }
+
+    eq(other: OrderedListWidget) {
+        return other.indent === this.indent &&
+               other.number === this.number &&
+               other.delimiter === this.delimiter &&
+               other.hasChildren === this.hasChildren &&
+               other.isCollapsed === this.isCollapsed &&
+               other.lineNumber === this.lineNumber;
+    }
+
+    toDOM() {
+        const container = document.createElement('span');
+        container.className = 'list-bullet-widget-container ordered-list-widget-container';
+
+        // Convert spaces to deeper indentation (same as list bullets)
+        const deeperIndent = this.indent.replace(/ {2}/g, '    ');
+        const tabIndent = this.indent.replace(/\t/g, '    ');
+        const finalIndent = deeperIndent || tabIndent;
+
+        if (finalIndent) {
+            const indentSpan = document.createElement('span');
+            indentSpan.textContent = finalIndent;
+            indentSpan.style.whiteSpace = 'pre';
+            container.appendChild(indentSpan);
+        }
+
+        // Add chevron if has children
+        if (this.hasChildren) {
+            const chevron = document.createElement('span');
+            chevron.className = 'list-chevron';
+            chevron.textContent = this.isCollapsed ? '▶' : '▼';
+            chevron.addEventListener('click', (e) => {
+                e.preventDefault();
+                e.stopPropagation();
+
+                // Dispatch custom event to toggle collapse state
+                const toggleEvent = new CustomEvent('toggleListCollapse', {
+                    detail: {
+                        lineNumber: this.lineNumber,
+                        isCollapsed: this.isCollapsed,
+                        indent: this.indent
+                    },
+                    bubbles: true
+                });
+                chevron.dispatchEvent(toggleEvent);
+            });
+            container.appendChild(chevron);
+        }
+
+        // Add the computed item number
+        const marker = document.createElement('span');
+        marker.className = 'ordered-list-marker';
+        marker.textContent = `${this.number}${this.delimiter} `;
+        container.appendChild(marker);
+
+        return container;
+    }
+}
+
 class CheckboxWidget extends WidgetType {
     constructor(
         private indent: string,
-        private isChecked: boolean,
+        private symbol: string,
         private lineNumber: number = 0,
         private hasChildren: boolean = false,
-        private isCollapsed: boolean = false
+        private isCollapsed: boolean = false,
+        // Done / total of the tasks below (parent tasks only)
+        private progress?: TaskProgress
     ) {
         super();
     }
 
     eq(other: CheckboxWidget) {
         return other.indent === this.indent && 
-               other.isChecked === this.isChecked &&
+               other.symbol === this.symbol &&
                other.lineNumber === this.lineNumber &&
                other.hasChildren === this.hasChildren &&
-               other.isCollapsed === this.isCollapsed;
+               other.isCollapsed === this.isCollapsed &&
+               other.progress?.done === this.progress?.done &&
+               other.progress?.total === this.progress?.total;
     }
 
     toDOM() {
@@ -205,7 +361,7 @@ class CheckboxWidget extends WidgetType {
         container.style.userSelect = 'none';
         
         // Convert spaces to deeper indentation (same as list bullets)
-        const deeperIndent = this.indent.replace(/  /g, '    ');
+        const deeperIndent = this.indent.replace(/ {2}/g, '    ');
         const tabIndent = this.indent.replace(/\t/g, '    ');
         const finalIndent = deeperIndent || tabIndent;
         
@@ -242,7 +398,6 @@ class CheckboxWidget extends WidgetType {
             chevron.addEventListener('click', (e) => {
                 e.preventDefault();
                 e.stopPropagation();
-                console.log('Checkbox chevron clicked for line:', this.lineNumber, 'collapsed:', this.isCollapsed);
                 
                 // Dispatch custom event to toggle collapse state
                 const toggleEvent = new CustomEvent('toggleListCollapse', {
@@ -273,15 +428,17 @@ class CheckboxWidget extends WidgetType {
         }
         
         // Add custom checkbox
+        const taskState = getTaskState(this.symbol);
         const checkbox = document.createElement('div');
-        checkbox.className = `checkbox-widget ${this.isChecked ? 'checked' : ''}`;
+        checkbox.className = `checkbox-widget task-${taskState.name} ${taskState.name === 'done' ? 'checked' : ''}`;
         checkbox.style.cursor = 'pointer';
+        checkbox.title = taskState.label;
         
-        // Add checkmark if checked
-        if (this.isChecked) {
+        // Add the state icon (checkmark, in progress, cancelled, ...)
+        if (taskState.icon) {
             const checkmark = document.createElement('div');
             checkmark.className = 'checkbox-checkmark';
-            checkmark.innerHTML = '✓';
+            checkmark.textContent = taskState.icon;
             checkbox.appendChild(checkmark);
         }
         
@@ -289,13 +446,12 @@ class CheckboxWidget extends WidgetType {
         checkbox.addEventListener('click', (e) => {
             e.preventDefault();
             e.stopPropagation();
-            console.log('Checkbox clicked for line:', this.lineNumber, 'current state:', this.isChecked);
             
-            // Dispatch custom event to toggle checkbox state
+            // Dispatch custom event to move the checkbox to its next state
             const toggleEvent = new CustomEvent('toggleCheckbox', {
                 detail: { 
                     lineNumber: this.lineNumber, 
-                    isChecked: this.isChecked,
+                    symbol: this.symbol,
                     indent: this.indent
                 },
                 bubbles: true
@@ -305,22 +461,101 @@ class CheckboxWidget extends WidgetType {
         
         container.appendChild(checkbox);
         
+        // "n/m" badge with a progress bar for parent tasks
+        if (this.progress) {
+            const { done, total } = this.progress;
+            const badge = container.createSpan({ cls: 'task-progress' });
+            badge.toggleClass('is-complete', done === total);
+            badge.title = `${done} of ${total} subtasks done`;
+            const bar = badge.createSpan({ cls: 'task-progress-bar' });
+            bar.createSpan({ cls: 'task-progress-fill' }).style.width = `${Math.round(done / total * 100)}%`;
+            badge.createSpan({ cls: 'task-progress-text', text: `${done}/${total}` });
+        }
+        
         return container;
     }
 }
 
+/**
+ * Chip for a task metadata field (due date, priority, recurrence, ...).
+ * Due, scheduled and start dates of open tasks are highlighted when they are
+ * today or past.
+ */
+class TaskMetadataWidget extends WidgetType {
+    constructor(private field: TaskMetadataField, private isOpen: boolean) {
+        super();
+    }
+
+    eq(other: TaskMetadataWidget) {
+        return other.field.kind === this.field.kind &&
+               other.field.value === this.field.value &&
+               other.isOpen === this.isOpen;
+    }
+
+    toDOM() {
+        const chip = document.createElement('span');
+        chip.className = `task-chip task-chip-${this.field.kind}`;
+        chip.title = TASK_METADATA_LABELS[this.field.kind];
+        
+        chip.createSpan({ cls: 'task-chip-sign', text: this.field.sign });
+        if (this.field.kind === 'priority') {
+            chip.title = `Priority: ${this.field.value}`;
+            chip.addClass(`task-priority-${this.field.value}`);
+            return chip;
+        }
+        chip.createSpan({ cls: 'task-chip-value', text: this.field.value });
+        
+        if (this.isOpen && ['due', 'scheduled', 'start'].includes(this.field.kind)) {
+            const date = moment(this.field.value, 'YYYY-MM-DD', true);
+            if (date.isValid()) {
+                const today = moment().startOf('day');
+                if (date.isSame(today, 'day')) {
+                    chip.addClass('is-today');
+                } else if (date.isBefore(today) && this.field.kind === 'due') {
+                    chip.addClass('is-overdue');
+                }
+            }
+        }
+        return chip;
+    }
+}
+
+const TASK_METADATA_LABELS: Record<TaskMetadataKind, string> = {
+    due: 'Due',
+    scheduled: 'Scheduled',
+    start: 'Start',
+    created: 'Created',
+    done: 'Done',
+    cancelled: 'Cancelled',
+    priority: 'Priority',
+    recurrence: 'Recurrence'
+};
+
 class CodeBlockWidget extends WidgetType {
-    constructor(private code: string, private language: string = '', private isCollapsed: boolean = true) {
+    // Options from the fence info string (language, title, line numbers, highlighted lines)
+    private options: CodeBlockOptions;
+    private language: string;
+
+    constructor(private code: string, private info: string = '', private isCollapsed: boolean = true) {
         super();
+        this.options = parseInfoString(info);
+        this.language = this.options.language;
     }
 
     eq(other: CodeBlockWidget) {
-        return other.code === this.code && other.language === this.language && other.isCollapsed === this.isCollapsed;
+        return other.code === this.code && other.info === this.info && other.isCollapsed === this.isCollapsed;
     }
 
     toDOM() {
         const container = document.createElement('div');
         container.className = 'code-block-widget-container';
+
+        if (this.options.title) {
+            const titleBar = document.createElement('div');
+            titleBar.className = 'code-block-title';
+            titleBar.textContent = this.options.title;
+            container.appendChild(titleBar);
+        }
         
         const buttonContainer = document.createElement('div');
         buttonContainer.className = 'code-block-buttons';
@@ -349,9 +584,7 @@ class CodeBlockWidget extends WidgetType {
         copyButton.addEventListener('click', (e) => {
             e.preventDefault();
             e.stopPropagation();
-            console.log('Copy button clicked');
             navigator.clipboard.writeText(this.code).then(() => {
-                console.log('Code copied to clipboard');
                 copyButton.innerHTML = '✓';
                 setTimeout(() => {
                     copyButton.innerHTML = '📋';
@@ -372,7 +605,15 @@ class CodeBlockWidget extends WidgetType {
         if (this.language) {
             code.className = `language-${this.language}`;
         }
-        code.textContent = this.code;
+        if (this.options.showLineNumbers || this.options.highlightedLines.length > 0) {
+            code.addClass('code-block-lines');
+            renderHighlightedLines(code, this.code, this.language, {
+                lineNumbers: this.options.showLineNumbers,
+                highlightedLines: this.options.highlightedLines
+            });
+        } else {
+            renderHighlightedCode(code, this.code, this.language);
+        }
         
         // Show/hide content based on collapsed state
         if (this.isCollapsed) {
@@ -386,7 +627,6 @@ class CodeBlockWidget extends WidgetType {
         
         // Make the code block clickable to focus and allow cursor positioning
         container.addEventListener('click', (e) => {
-            console.log('Code block clicked, focusing for editing');
             e.preventDefault();
             e.stopPropagation();
             
@@ -407,9 +647,253 @@ class CodeBlockWidget extends WidgetType {
     }
 }
 
+class MathWidget extends WidgetType {
+    constructor(private source: string, private display: boolean) {
+        super();
+    }
+
+    eq(other: MathWidget) {
+        return other.source === this.source && other.display === this.display;
+    }
+
+    toDOM() {
+        const container = document.createElement(this.display ? 'div' : 'span');
+        container.className = this.display ? 'math-widget math-block' : 'math-widget math-inline';
+        try {
+            container.appendChild(renderMath(this.source, this.display));
+            finishRenderMath();
+        } catch (error) {
+            container.addClass('math-error');
+            container.textContent = this.display ? `$$${this.source}$$` : `$${this.source}$`;
+        }
+        return container;
+    }
+
+    // Let clicks place the cursor next to the formula, which shows its source
+    ignoreEvent() {
+        return false;
+    }
+}
+
+// Components of rendered widgets, kept with their DOM: CodeMirror keeps the
+// DOM of a widget for an equal one and destroys it through that one
+const widgetComponents = new WeakMap<HTMLElement, Component>();
+
+function loadWidgetComponent(dom: HTMLElement): Component {
+    const component = new Component();
+    component.load();
+    widgetComponents.set(dom, component);
+    return component;
+}
+
+function unloadWidgetComponent(dom: HTMLElement) {
+    widgetComponents.get(dom)?.unload();
+    widgetComponents.delete(dom);
+}
+
+class MermaidWidget extends WidgetType {
+    constructor(private code: string, private plugin: SurveyNotePlugin) {
+        super();
+    }
+
+    eq(other: MermaidWidget) {
+        return other.code === this.code;
+    }
+
+    toDOM() {
+        const container = document.createElement('div');
+        container.className = 'mermaid-widget-container';
+
+        // Obsidian's renderer draws ```mermaid blocks with its bundled Mermaid
+        MarkdownRenderer.render(this.plugin.app, '```mermaid\n' + this.code + '\n```', container, '', loadWidgetComponent(container))
+            .catch(error => {
+                container.addClass('mermaid-error');
+                container.textContent = `Mermaid: ${error}`;
+            });
+        return container;
+    }
+
+    destroy(dom: HTMLElement) {
+        unloadWidgetComponent(dom);
+    }
+
+    // Let clicks place the cursor next to the diagram, which shows its source
+    ignoreEvent() {
+        return false;
+    }
+}
+
+class MediaWidget extends WidgetType {
+    constructor(private kind: MediaKind, private linkTarget: string, private sourcePath: string, private plugin: SurveyNotePlugin) {
+        super();
+    }
+
+    eq(other: MediaWidget) {
+        return other.kind === this.kind &&
+               other.linkTarget === this.linkTarget &&
+               other.sourcePath === this.sourcePath;
+    }
+
+    toDOM() {
+        const container = document.createElement('div');
+        container.className = `media-widget media-${this.kind}`;
+
+        const { path, subpath } = parseInternalLink(this.linkTarget);
+        const app = this.plugin.app;
+        const file = app.metadataCache.getFirstLinkpathDest(path, this.sourcePath);
+        if (!(file instanceof TFile)) {
+            container.addClass('is-unresolved');
+            container.setText(`"${path}" not found.`);
+            return container;
+        }
+
+        if (this.kind === 'pdf') {
+            // Obsidian's renderer shows PDF embeds with its PDF viewer (`#page=3` opens that page)
+            MarkdownRenderer.render(app, `![[${this.linkTarget}]]`, container, this.sourcePath, loadWidgetComponent(container))
+                .catch(error => {
+                    container.addClass('is-unresolved');
+                    container.textContent = `PDF: ${error}`;
+                });
+            return container;
+        }
+
+        // Media fragments such as `#t=30` start playback at that time
+        const media = container.createEl(this.kind, { cls: 'media-player' });
+        media.controls = true;
+        media.preload = 'metadata';
+        media.src = app.vault.getResourcePath(file) + subpath;
+        media.title = file.name;
+        return container;
+    }
+
+    destroy(dom: HTMLElement) {
+        unloadWidgetComponent(dom);
+    }
+}
+
+class TransclusionWidget extends WidgetType {
+    constructor(private linkTarget: string, private display: string, private sourcePath: string, private plugin: SurveyNotePlugin) {
+        super();
+    }
+
+    eq(other: TransclusionWidget) {
+        return other.linkTarget === this.linkTarget &&
+               other.display === this.display &&
+               other.sourcePath === this.sourcePath;
+    }
+
+    toDOM() {
+        const container = document.createElement('div');
+        container.className = 'transclusion-widget';
+
+        // Clicks are handled by the section's link click handler through the data attributes
+        const header = container.createDiv({ cls: 'transclusion-header' });
+        const link = header.createSpan({ cls: 'internal-link-mark transclusion-link', text: this.display });
+        link.title = `Open "${this.linkTarget}"`;
+        link.setAttribute('data-filename', this.linkTarget);
+        link.setAttribute('data-link-type', 'internal');
+
+        const body = container.createDiv({ cls: 'transclusion-content markdown-rendered' });
+        const { path, subpath } = parseInternalLink(this.linkTarget);
+        const app = this.plugin.app;
+        const file = path
+            ? app.metadataCache.getFirstLinkpathDest(path, this.sourcePath)
+            : app.vault.getAbstractFileByPath(this.sourcePath);
+        if (!(file instanceof TFile) || file.extension !== 'md') {
+            body.addClass('is-unresolved');
+            body.setText(file ? `"${path}" cannot be embedded.` : `"${path}" not found.`);
+            return container;
+        }
+
+        const component = loadWidgetComponent(container);
+        const render = async () => {
+            const markdown = await getEmbedMarkdown(this.plugin, file, subpath);
+            body.empty();
+            if (markdown === null) {
+                body.addClass('is-unresolved');
+                body.setText(`"${subpath.replace(/^#/, '')}" not found in "${file.basename}".`);
+                return;
+            }
+            body.removeClass('is-unresolved');
+            await MarkdownRenderer.render(app, markdown, body, file.path, component);
+        };
+        render().catch(error => console.error('SurveyNote: failed to render embed', error));
+        // Follow edits of the embedded note
+        component.registerEvent(app.vault.on('modify', modified => {
+            if (modified === file) {
+                render().catch(error => console.error('SurveyNote: failed to render embed', error));
+            }
+        }));
+        return container;
+    }
+
+    destroy(dom: HTMLElement) {
+        unloadWidgetComponent(dom);
+    }
+}
+
+class TableWidget extends WidgetType {
+    constructor(private source: string) {
+        super();
+    }
+
+    eq(other: TableWidget) {
+        return other.source === this.source;
+    }
+
+    toDOM() {
+        const model = parseTable(this.source);
+        const container = document.createElement('div');
+        container.className = 'table-widget-container';
+
+        const table = document.createElement('table');
+        table.className = 'table-widget';
+
+        const addRow = (parent: HTMLElement, cells: string[], tag: 'th' | 'td') => {
+            const tr = document.createElement('tr');
+            cells.forEach((cell, column) => {
+                const cellEl = document.createElement(tag);
+                cellEl.textContent = cell.replace(/\\\|/g, '|');
+                const align = model.align[column];
+                if (align) {
+                    cellEl.style.textAlign = align;
+                }
+                tr.appendChild(cellEl);
+            });
+            parent.appendChild(tr);
+        };
+
+        const thead = document.createElement('thead');
+        addRow(thead, model.header, 'th');
+        table.appendChild(thead);
+
+        const tbody = document.createElement('tbody');
+        model.rows.forEach(row => addRow(tbody, row, 'td'));
+        table.appendChild(tbody);
+
+        // Clicking the table moves the cursor into it to edit the Markdown
+        container.addEventListener('click', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+
+            const customEvent = new CustomEvent('editTable', {
+                detail: { target: container },
+                bubbles: true
+            });
+            container.dispatchEvent(customEvent);
+        });
+
+        container.style.cursor = 'text';
+        container.title = 'Click to edit table';
+        container.appendChild(table);
+
+        return container;
+    }
+}
+
 class MultiImageWidget extends WidgetType {
     constructor(
-        private images: Array<{altText: string, imagePath: string, width?: number, height?: number}>,
+        private images: Array<{altText: string, imagePath: string, options: ImageOptions}>,
         private plugin: SurveyNotePlugin
     ) {
         super();
@@ -432,8 +916,7 @@ class MultiImageWidget extends WidgetType {
                 imageData.altText, 
                 imageData.imagePath, 
                 this.plugin, 
-                imageData.width, 
-                imageData.height
+                imageData.options
             );
             
             const imageDOM = singleImageWidget.toDOM();
@@ -455,8 +938,7 @@ class ImageWidget extends WidgetType {
         private altText: string, 
         private imagePath: string, 
         private plugin: SurveyNotePlugin,
-        private width?: number,
-        private height?: number
+        private options: ImageOptions = {}
     ) {
         super();
     }
@@ -464,36 +946,37 @@ class ImageWidget extends WidgetType {
     eq(other: ImageWidget) {
         return other.altText === this.altText && 
                other.imagePath === this.imagePath &&
-               other.width === this.width &&
-               other.height === this.height;
+               JSON.stringify(other.options) === JSON.stringify(this.options);
     }
 
     toDOM() {
+        const { width, height, align, caption } = this.options;
+        const altText = this.altText || this.options.alt || '';
         const container = document.createElement('div');
         container.className = 'image-widget-container';
+        if (align) {
+            container.addClass(`image-align-${align}`);
+        }
         
         const img = document.createElement('img');
         img.className = 'image-widget';
-        img.alt = this.altText;
-        img.title = this.altText || this.imagePath;
+        img.alt = altText;
+        img.title = altText || this.imagePath;
         img.style.borderRadius = '4px';
         img.style.cursor = 'pointer';
         
         // Apply size constraints
-        if (this.width && this.height) {
-            console.log('Applying exact size:', this.width, 'x', this.height);
-            img.style.width = `${this.width}px`;
-            img.style.height = `${this.height}px`;
+        if (width && height) {
+            img.style.width = `${width}px`;
+            img.style.height = `${height}px`;
             img.style.objectFit = 'cover'; // Maintain aspect ratio while fitting dimensions
             img.classList.add('image-with-explicit-size');
-        } else if (this.width) {
-            console.log('Applying width only:', this.width);
-            img.style.width = `${this.width}px`;
+        } else if (width) {
+            img.style.width = `${width}px`;
             img.style.height = 'auto';
             img.classList.add('image-with-explicit-size');
-        } else if (this.height) {
-            console.log('Applying height only:', this.height);
-            img.style.height = `${this.height}px`;
+        } else if (height) {
+            img.style.height = `${height}px`;
             img.style.width = 'auto';
             img.classList.add('image-with-explicit-size');
         } else {
@@ -506,17 +989,15 @@ class ImageWidget extends WidgetType {
         this.loadImage(img);
         
         img.addEventListener('click', (e) => {
-            console.log('Image clicked:', this.imagePath);
             e.preventDefault();
             // TODO: Open image in full size or image viewer
         });
         
         img.addEventListener('error', () => {
-            console.log('Image failed to load:', this.imagePath);
             img.style.display = 'none';
             const fallback = document.createElement('span');
             fallback.className = 'image-widget-fallback';
-            fallback.textContent = `📷 ${this.altText || this.imagePath}`;
+            fallback.textContent = `📷 ${altText || this.imagePath}`;
             fallback.style.color = 'var(--text-muted)';
             fallback.style.fontStyle = 'italic';
             container.appendChild(fallback);
@@ -614,8 +1095,8 @@ class ImageWidget extends WidgetType {
                 const finalWidth = Math.round(imgRect.width);
                 const finalHeight = Math.round(imgRect.height);
                 
-                // Update the markdown with new dimensions
-                this.updateImageSize(finalWidth, finalHeight);
+                // Update the markdown with new dimensions, keeping the other options
+                this.updateOptions(container, { ...this.options, width: finalWidth, height: finalHeight });
                 
                 // Remove event listeners
                 document.removeEventListener('mousemove', handleMouseMove);
@@ -629,21 +1110,71 @@ class ImageWidget extends WidgetType {
         
         container.appendChild(img);
         container.appendChild(resizeHandle);
+        container.appendChild(this.createToolbar(container));
+        if (caption) {
+            const captionEl = container.createDiv({ cls: 'image-caption', text: caption });
+            captionEl.style.maxWidth = width ? `${width}px` : '';
+        }
         return container;
     }
 
-    private updateImageSize(width: number, height: number) {
-        // Dispatch a custom event to update the markdown
-        const updateEvent = new CustomEvent('updateImageSize', {
+    /**
+     * Toolbar shown on hover: alignment, float and caption
+     */
+    private createToolbar(container: HTMLElement): HTMLElement {
+        const toolbar = document.createElement('div');
+        toolbar.className = 'image-toolbar';
+
+        const labels: Record<ImageAlign, { text: string, title: string }> = {
+            'left': { text: '⇤', title: 'Align left' },
+            'center': { text: '⇔', title: 'Align center' },
+            'right': { text: '⇥', title: 'Align right' },
+            'float-left': { text: '◧', title: 'Float left (text wraps on the right)' },
+            'float-right': { text: '◨', title: 'Float right (text wraps on the left)' },
+        };
+        for (const align of IMAGE_ALIGNS) {
+            const button = toolbar.createEl('button', { cls: 'image-toolbar-button', text: labels[align].text });
+            button.title = labels[align].title;
+            if (this.options.align === align) {
+                button.addClass('is-active');
+            }
+            button.addEventListener('click', (e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                // Clicking the active alignment resets it
+                this.updateOptions(container, { ...this.options, align: this.options.align === align ? undefined : align });
+            });
+        }
+
+        const captionButton = toolbar.createEl('button', { cls: 'image-toolbar-button', text: 'Aa' });
+        captionButton.title = 'Edit caption';
+        captionButton.addEventListener('click', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            new ImageCaptionModal(this.plugin.app, this.options.caption ?? '', (caption) => {
+                this.updateOptions(container, { ...this.options, caption: caption || undefined });
+            }).open();
+        });
+
+        // Keep the editor from moving the cursor into the image source
+        toolbar.addEventListener('mousedown', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+        });
+        return toolbar;
+    }
+
+    private updateOptions(container: HTMLElement, options: ImageOptions) {
+        // The section rewrites the options of the image at this widget's position
+        const updateEvent = new CustomEvent('updateImageOptions', {
             detail: {
+                target: container,
                 imagePath: this.imagePath,
-                altText: this.altText,
-                width: width,
-                height: height
+                options
             },
             bubbles: true
         });
-        document.dispatchEvent(updateEvent);
+        container.dispatchEvent(updateEvent);
     }
 
     private async loadImage(img: HTMLImageElement) {
@@ -659,7 +1190,6 @@ class ImageWidget extends WidgetType {
                     const resolvedPath = this.plugin.app.metadataCache.getFirstLinkpathDest(this.imagePath, currentFile.path);
                     if (resolvedPath instanceof TFile) {
                         file = resolvedPath;
-                        console.log('Resolved via metadataCache:', file.path);
                     }
                 }
             }
@@ -677,7 +1207,6 @@ class ImageWidget extends WidgetType {
                     const testFile = this.plugin.app.vault.getAbstractFileByPath(variation);
                     if (testFile instanceof TFile) {
                         file = testFile;
-                        console.log('Found with path variation:', variation, file.path);
                         break;
                     }
                 }
@@ -689,9 +1218,6 @@ class ImageWidget extends WidgetType {
                 const url = URL.createObjectURL(blob);
                 img.src = url;
                 
-                img.addEventListener('load', () => {
-                    console.log('Image loaded successfully from vault');
-                });
                 
                 // Clean up blob URL when image is removed from DOM
                 img.addEventListener('remove', () => {
@@ -699,11 +1225,9 @@ class ImageWidget extends WidgetType {
                 });
             } else {
                 // Try as external URL or data URI
-                console.log('Trying image as external URL:', this.imagePath);
                 if (this.imagePath.startsWith('http') || this.imagePath.startsWith('data:')) {
                     img.src = this.imagePath;
                 } else {
-                    console.log('Image file not found in vault, triggering error');
                     img.dispatchEvent(new Event('error'));
                 }
             }
@@ -714,26 +1238,27 @@ class ImageWidget extends WidgetType {
     }
 }
 
-
-class CollapseStateWidget extends WidgetType {
-    constructor(private state: 'collapsed' | 'hidden') {
-        super();
-    }
-
-    eq(other: CollapseStateWidget) {
-        return other.state === this.state;
+// Takes the place of a line hidden under a collapsed list item
+class HiddenLineWidget extends WidgetType {
+    eq() {
+        return true;
     }
 
     toDOM() {
         const span = document.createElement('span');
-        span.className = 'collapse-state-marker';
-        span.textContent = this.state === 'collapsed' ? '<!--COLLAPSED-->' : '<!--HIDDEN-->';
+        span.style.display = 'none';
+        span.style.visibility = 'hidden';
+        span.style.height = '0';
+        span.style.width = '0';
+        span.style.margin = '0';
+        span.style.padding = '0';
+        span.style.overflow = 'hidden';
         return span;
     }
 }
 
-// State for managing code block collapse states
-const codeBlockCollapseState = StateField.define<Map<number, boolean>>({
+// Code block collapse states toggled by the user, keyed by getCodeBlockKey
+const codeBlockCollapseState = StateField.define<Map<string, boolean>>({
     create() {
         return new Map();
     },
@@ -742,71 +1267,429 @@ const codeBlockCollapseState = StateField.define<Map<number, boolean>>({
         for (const effect of tr.effects) {
             if (effect.is(toggleCodeBlockEffect)) {
                 const newValue = new Map(value);
-                newValue.set(effect.value.blockIndex, effect.value.isCollapsed);
+                newValue.set(effect.value.key, effect.value.isCollapsed);
                 return newValue;
             }
         }
+
+        // Editing a block changes its key, so carry its state over to the new key
+        if (tr.docChanged && value.size > 0) {
+            let fromA = tr.startState.doc.length, toA = 0, fromB = tr.state.doc.length, toB = 0;
+            tr.changes.iterChangedRanges((changeFromA, changeToA, changeFromB, changeToB) => {
+                fromA = Math.min(fromA, changeFromA);
+                toA = Math.max(toA, changeToA);
+                fromB = Math.min(fromB, changeFromB);
+                toB = Math.max(toB, changeToB);
+            });
+            // Only the blocks around the changes can have been edited
+            const edits = findCodeBlocks(tr.startState, fromA, toA).flatMap(block => {
+                const isCollapsed = value.get(getCodeBlockKey(block));
+                if (isCollapsed === undefined) return [];
+                return [{ from: tr.changes.mapPos(block.from, 1), to: tr.changes.mapPos(block.to, -1), isCollapsed }];
+            });
+            if (edits.length === 0) return value;
+            
+            const newBlocks = findCodeBlocks(tr.state, Math.min(fromB, ...edits.map(edit => edit.from)), Math.max(toB, ...edits.map(edit => edit.to)));
+            let newValue: Map<string, boolean> | null = null;
+            for (const { from, to, isCollapsed } of edits) {
+                const edited = newBlocks.find(other => other.from < to && other.to > from);
+                if (!edited) continue;
+                const key = getCodeBlockKey(edited);
+                if (!value.has(key)) {
+                    newValue = newValue ?? new Map(value);
+                    newValue.set(key, isCollapsed);
+                }
+            }
+            return newValue ?? value;
+        }
         return value;
     }
 });
 
-const toggleCodeBlockEffect = StateEffect.define<{blockIndex: number, isCollapsed: boolean}>();
-
-function createInternalLinkExtension(plugin: SurveyNotePlugin) {
-    const internalLinkRegex = /\[\[([^\]]+)\]\]/g;
-    const internalImageRegex = /!\[\[([^\]]+)\]\]/g;
-    const markdownLinkRegex = /\[([^\]]+)\]\(([^)]+)\)/g;
-    const imageRegex = /!\[([^\]]*)\]\(([^)]+)\)/g;
-    const codeBlockRegex = /```(\w*)\n?([\s\S]*?)\n?```/g;
-    const urlRegex = /(https?:\/\/[^\s]+)/g;
-    const listItemRegex = /^(\s*)([-*])( +)(?!\[[ x]\] )/gm;
-    const checkboxRegex = /^(\s*)- (\[[ x]\]) /gm;
-    const collapseMarkerRegex = /<!--(COLLAPSED|HIDDEN)-->/g;
-    
-    function parseImageOptions(optionsStr: string): { 
-        width?: number; 
-        height?: number;
-    } {
-        if (!optionsStr) return {};
-        
-        // Parse size specification (e.g., "300x200", "300", "x200")
-        const sizeMatch = optionsStr.match(/^(\d+)?(?:x(\d+))?$/);
-        if (sizeMatch) {
-            const width = sizeMatch[1] ? parseInt(sizeMatch[1], 10) : undefined;
-            const height = sizeMatch[2] ? parseInt(sizeMatch[2], 10) : undefined;
-            return { width, height };
+const toggleCodeBlockEffect = StateEffect.define<{key: string, isCollapsed: boolean}>();
+
+// Line starts of the collapsed list items, in document order. Folding does
+// not touch the text; the state is stored in plugin data (see getListFoldAnchors).
+const listFoldState = StateField.define<readonly number[]>({
+    create() {
+        return [];
+    },
+    update(value, tr) {
+        let folds = value;
+        if (tr.docChanged && folds.length > 0) {
+            const mapped: number[] = [];
+            for (const pos of folds) {
+                // An item whose whole line was deleted loses its fold
+                const line = tr.startState.doc.lineAt(pos);
+                const from = tr.changes.mapPos(line.from, 1);
+                if (tr.changes.mapPos(line.to, -1) <= from) continue;
+                const lineStart = tr.state.doc.lineAt(from).from;
+                if (mapped[mapped.length - 1] !== lineStart) mapped.push(lineStart);
+            }
+            if (mapped.length !== folds.length || mapped.some((pos, index) => pos !== folds[index])) {
+                folds = mapped;
+            }
         }
-        
-        return {};
-    }
-    
+        for (const effect of tr.effects) {
+            if (effect.is(toggleListFoldEffect)) {
+                const { pos, isCollapsed } = effect.value;
+                const others = folds.filter(fold => fold !== pos);
+                folds = isCollapsed ? [...others, pos].sort((a, b) => a - b) : others;
+            }
+        }
+        return folds;
+    }
+});
+
+const toggleListFoldEffect = StateEffect.define<{pos: number, isCollapsed: boolean}>();
+
+/**
+ * A construct shown as a widget while the cursor is outside of it and as
+ * source while the cursor touches it
+ */
+interface CursorConstruct {
+    from: number;
+    to: number;
+    editing: boolean;
+}
+
+/**
+ * A code block, table or display math in the block state: whether it is
+ * being edited and, for code blocks, the collapse key
+ */
+class BlockMarker extends RangeValue {
+    constructor(readonly editing: boolean, readonly key?: string) {
+        super();
+    }
+    
+    eq(other: BlockMarker) {
+        return this.editing === other.editing && this.key === other.key;
+    }
+}
+
+type ListLineInfo = { hasChildren: boolean, isCollapsed: boolean, shouldHide: boolean };
+
+/**
+ * Block-level decorations of a section editor
+ * - blocks: code blocks, tables and display math. They may span lines,
+ *   which only a state field (not a view plugin) can decorate.
+ * - hiddenRanges: lines hidden by a collapsed parent item, in document order
+ * - listStructure / orderedNumbers / taskProgress: by line index, for the
+ *   list widgets
+ */
+interface BlockDecorations {
+    decorations: DecorationSet;
+    blocks: RangeSet<BlockMarker>;
+    hiddenRanges: Array<{from: number, to: number}>;
+    listStructure: Map<number, ListLineInfo>;
+    orderedNumbers: Map<number, number>;
+    taskProgress: Map<number, TaskProgress>;
+}
+
+type ListDecorations = Pick<BlockDecorations, 'hiddenRanges' | 'listStructure' | 'orderedNumbers' | 'taskProgress'>;
+
+function touchesSelection(selection: {from: number, to: number}, from: number, to: number): boolean {
+    return (selection.from >= from && selection.from <= to) ||
+        (selection.to >= from && selection.to <= to) ||
+        (selection.from <= from && selection.to >= to);
+}
+
+/**
+ * Constructs the cursor entered or left
+ */
+function getToggledConstructs(constructs: CursorConstruct[], selection: {from: number, to: number}): CursorConstruct[] {
+    return constructs.filter(construct => construct.editing !== touchesSelection(selection, construct.from, construct.to));
+}
+
+/**
+ * Blocks the cursor entered or left, in document order. Only blocks that
+ * touch one of `near` (the selections before and after) can have changed.
+ */
+function getToggledBlocks(
+    blocks: RangeSet<BlockMarker>, selection: {from: number, to: number}, near: Array<{from: number, to: number}>
+): CursorConstruct[] {
+    const toggled: CursorConstruct[] = [];
+    for (const range of near) {
+        blocks.between(range.from, range.to, (from, to, marker) => {
+            if (marker.editing !== touchesSelection(selection, from, to) && !toggled.some(block => block.from === from)) {
+                toggled.push({ from, to, editing: marker.editing });
+            }
+        });
+    }
+    return toggled.sort((a, b) => a.from - b.from);
+}
+
+/**
+ * Whether `from`-`to` lies inside one of the sorted, non-overlapping `ranges`
+ */
+function isInsideRanges(ranges: Array<{from: number, to: number}>, from: number, to: number): boolean {
+    let low = 0;
+    let high = ranges.length - 1;
+    while (low <= high) {
+        const middle = (low + high) >> 1;
+        if (to > ranges[middle].to) {
+            low = middle + 1;
+        } else if (from < ranges[middle].from) {
+            high = middle - 1;
+        } else {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Ranges that are not inside another one of `ranges`, sorted
+ */
+function getOutermostRanges<T extends {from: number, to: number}>(ranges: T[]): T[] {
+    const sorted = [...ranges].sort((a, b) => (a.from - b.from) || (b.to - a.to));
+    const outermost: T[] = [];
+    for (const range of sorted) {
+        const last = outermost[outermost.length - 1];
+        if (!last || range.to > last.to) outermost.push(range);
+    }
+    return outermost;
+}
+
+/**
+ * Parts of the sorted `ranges` not covered by the sorted `covered` ranges
+ */
+function subtractRanges(ranges: Array<{from: number, to: number}>, covered: Array<{from: number, to: number}>): Array<{from: number, to: number}> {
+    const result: Array<{from: number, to: number}> = [];
+    for (const range of ranges) {
+        let from = range.from;
+        for (const other of covered) {
+            if (other.to <= from || other.from >= range.to) continue;
+            if (other.from > from) result.push({ from, to: other.from });
+            from = Math.max(from, other.to);
+        }
+        if (from < range.to) result.push({ from, to: range.to });
+    }
+    return result;
+}
+
+/**
+ * What the list structure depends on in a line: blank or not, and the list
+ * marker with its indentation
+ */
+function getListLineSignature(line: string): string {
+    if (line.trim() === '') return 'blank';
+    return line.match(/^\s*(?:[-*]|\d+[.)])?\s*(?:\[[ xX/>?-]\]\s)?/)?.[0] ?? '';
+}
+
+/**
+ * Whether a transaction leaves the list structure as it was: no line added
+ * or removed, no list marker or indentation edited and no item folded
+ */
+function keepsListStructure(tr: Transaction): boolean {
+    if (tr.effects.some(effect => effect.is(toggleListFoldEffect))) return false;
+    let keeps = true;
+    tr.changes.iterChanges((fromA, toA, fromB, toB) => {
+        if (!keeps) return;
+        const oldLine = tr.startState.doc.lineAt(fromA);
+        const newLine = tr.state.doc.lineAt(fromB);
+        keeps = oldLine.to >= toA && newLine.to >= toB &&
+            getListLineSignature(oldLine.text) === getListLineSignature(newLine.text);
+    });
+    return keeps;
+}
+
+/**
+ * Whether an update may change the stored anchors of the folded list items:
+ * an item was folded or unfolded, lines were added or removed, or the text
+ * of a folded item was edited
+ */
+function changesListFolds(update: ViewUpdate): boolean {
+    const folds = update.state.field(listFoldState);
+    if (update.transactions.some(tr => tr.effects.some(effect => effect.is(toggleListFoldEffect)))) return true;
+    if (!update.docChanged || folds.length === 0) return false;
+    if (update.state.doc.lines !== update.startState.doc.lines) return true;
+    let touched = false;
+    update.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+        touched = touched || folds.some(pos => {
+            const line = update.state.doc.lineAt(pos);
+            return fromB <= line.to && toB >= line.from;
+        });
+    });
+    return touched;
+}
+
+/**
+ * Replace the decorations (or other range values) that lie inside `ranges`
+ * with `add`
+ */
+function replaceDecorations<T extends RangeValue>(decorations: RangeSet<T>, ranges: Array<{from: number, to: number}>, add: Range<T>[]): RangeSet<T> {
+    return decorations.update({
+        filter: (from, to) => !ranges.some(range => from >= range.from && to <= range.to),
+        filterFrom: Math.min(...ranges.map(range => range.from)),
+        filterTo: Math.max(...ranges.map(range => range.to)),
+        add,
+        sort: true
+    });
+}
+
+/**
+ * Sorted ranges with the overlapping and touching ones joined
+ */
+function mergeRanges(ranges: Array<{from: number, to: number}>): Array<{from: number, to: number}> {
+    const merged: Array<{from: number, to: number}> = [];
+    for (const range of [...ranges].sort((a, b) => a.from - b.from)) {
+        const last = merged[merged.length - 1];
+        if (last && range.from <= last.to) {
+            last.to = Math.max(last.to, range.to);
+        } else {
+            merged.push({ from: range.from, to: range.to });
+        }
+    }
+    return merged;
+}
+
+// Syntax nodes that hold other blocks instead of content
+const BLOCK_CONTAINERS = ['Document', 'BulletList', 'OrderedList', 'ListItem', 'Blockquote'];
+
+/**
+ * `from`-`to` widened to the blocks (paragraphs, code blocks, tables...)
+ * that contain its ends
+ */
+function getBlocksAround(tree: Tree, from: number, to: number): {from: number, to: number} {
+    const range = { from, to };
+    for (const [pos, side] of [[from, -1], [from, 1], [to, -1], [to, 1]] as const) {
+        for (let node: SyntaxNode | null = tree.resolve(pos, side); node?.parent; node = node.parent) {
+            if (BLOCK_CONTAINERS.includes(node.parent.name) && !BLOCK_CONTAINERS.includes(node.name)) {
+                range.from = Math.min(range.from, node.from);
+                range.to = Math.max(range.to, node.to);
+                break;
+            }
+        }
+    }
+    return range;
+}
+
+/**
+ * Part of the new document whose blocks a transaction may have changed: the
+ * changed text with the blocks around it before and after the change. Those
+ * can reach far, as a fence that is opened turns the rest into code.
+ * `reshaped` tells whether the blocks around the change moved their bounds.
+ */
+function getChangedBlockRange(tr: Transaction): { from: number, to: number, reshaped: boolean } {
+    const oldTree = syntaxTree(tr.startState);
+    const newTree = syntaxTree(tr.state);
+    let from = tr.state.doc.length;
+    let to = 0;
+    let reshaped = false;
+    tr.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+        const before = getBlocksAround(oldTree, fromA, toA);
+        const after = getBlocksAround(newTree, fromB, toB);
+        const beforeFrom = tr.changes.mapPos(before.from, -1);
+        const beforeTo = tr.changes.mapPos(before.to, 1);
+        reshaped = reshaped || beforeFrom !== after.from || beforeTo !== after.to;
+        from = Math.min(from, beforeFrom, after.from);
+        to = Math.max(to, beforeTo, after.to);
+    });
+    const range = getBlocksAround(newTree, from, to);
+    return { ...range, reshaped: reshaped || range.from < from || range.to > to };
+}
+
+/**
+ * Lines (numbered from 1) of the lists around `from`-`to`: from the line
+ * after the previous line that ends lists (see endsLists) to the line before
+ * the next one. Nothing outside changes the structure or numbers inside.
+ */
+function getListLines(doc: Text, from: number, to: number): { first: number, last: number } {
+    let first = doc.lineAt(from).number;
+    let last = doc.lineAt(to).number;
+    while (first > 1 && !endsLists(doc.line(first - 1).text)) first--;
+    while (last < doc.lines && !endsLists(doc.line(last + 1).text)) last++;
+    return { first, last };
+}
+
+/**
+ * A map by line index after lines `first`-`last` (numbered from 1) were
+ * scanned again into `scanned` (keyed from line `first`). Entries before them
+ * stay and entries after them move by the `delta` lines added.
+ */
+function spliceLineMap<T>(map: Map<number, T>, scanned: Map<number, T>, first: number, last: number, delta: number): Map<number, T> {
+    const result = new Map<number, T>();
+    for (const [index, value] of map) {
+        if (index < first - 1) {
+            result.set(index, value);
+        } else if (index >= last - delta) {
+            result.set(index + delta, value);
+        }
+    }
+    for (const [index, value] of scanned) {
+        result.set(index + first - 1, value);
+    }
+    return result;
+}
+
+/**
+ * Indexes of the lines of fenced and indented code blocks between `from` and
+ * `to`, counted from the line at `from`
+ */
+function getCodeLineIndexes(state: EditorState, from: number, to: number): Set<number> {
+    const doc = state.doc;
+    const firstLine = doc.lineAt(from).number;
+    const lastLine = doc.lineAt(to).number;
+    const indexes = new Set<number>();
+    getSyntaxTree(state, to).iterate({
+        from,
+        to,
+        enter: node => {
+            if (node.name !== 'FencedCode' && node.name !== 'CodeBlock') return;
+            const start = Math.max(doc.lineAt(node.from).number, firstLine);
+            const end = Math.min(doc.lineAt(node.to).number, lastLine);
+            for (let number = start; number <= end; number++) {
+                indexes.add(number - firstLine);
+            }
+            return false;
+        }
+    });
+    return indexes;
+}
+
+/**
+ * Rendering of a section editor: block widgets, list and inline decorations,
+ * with the fold states of its code blocks and list items
+ */
+export function createInternalLinkExtension(
+    plugin: SurveyNotePlugin,
+    codeBlockStates: Record<string, boolean> = {},
+    listFolds: string[] = [],
+    getSourcePath: () => string = () => ''
+) {
     // Parse list and checkbox structure to determine which items have children and should be hidden
-    function parseListStructure(text: string): Map<number, { hasChildren: boolean, isCollapsed: boolean, shouldHide: boolean }> {
+    function parseListStructure(text: string, collapsedLines: Set<number>): Map<number, { hasChildren: boolean, isCollapsed: boolean, shouldHide: boolean }> {
         const lines = text.split('\n');
         const listInfo = new Map<number, { hasChildren: boolean, isCollapsed: boolean, shouldHide: boolean }>();
         
         // First pass: identify all list items and checkboxes in the original text 
-        const allListItems: Array<{ lineIndex: number, indentLevel: number, isCollapsed: boolean, originalLine: string }> = [];
+        const allListItems: Array<{ lineIndex: number, indentLevel: number, isCollapsed: boolean, list: number }> = [];
+        // Items of different lists (see endsLists) are never parent and child
+        let list = 0;
         
         for (let i = 0; i < lines.length; i++) {
             const line = lines[i];
-            // Remove collapse markers for structure analysis but preserve original line
-            const cleanLine = line.replace(/<!--(COLLAPSED|HIDDEN)-->/g, '');
+            if (endsLists(line)) {
+                list++;
+                continue;
+            }
             
             // Match both regular list items and checkboxes
-            const listMatch = cleanLine.match(/^(\s*)([-*])( +)(?!\[[ x]\] )/);
-            const checkboxMatch = cleanLine.match(/^(\s*)- (\[[ x]\]) /);
+            const listMatch = line.match(/^(\s*)([-*])( +)(?!\[[ xX/>?-]\] )/) || line.match(ORDERED_ITEM_REGEX);
+            const checkboxMatch = line.match(TASK_LINE_REGEX);
             
             if (listMatch || checkboxMatch) {
                 const indent = listMatch ? listMatch[1] : (checkboxMatch ? checkboxMatch[1] : '');
                 const indentLevel = indent.length;
-                const isCollapsed = line.includes('<!--COLLAPSED-->');
+                const isCollapsed = collapsedLines.has(i);
                 
-                allListItems.push({ lineIndex: i, indentLevel, isCollapsed, originalLine: line });
+                allListItems.push({ lineIndex: i, indentLevel, isCollapsed, list });
             }
         }
         
         // Second pass: determine children and visibility for each item
+        const parents: typeof allListItems = [];
         for (let i = 0; i < allListItems.length; i++) {
             const currentItem = allListItems[i];
             let hasChildren = false;
@@ -815,6 +1698,9 @@ function createInternalLinkExtension(plugin: SurveyNotePlugin) {
             // Check if this item has children (always check the complete structure based on indentation)
             for (let j = i + 1; j < allListItems.length; j++) {
                 const nextItem = allListItems[j];
+                if (nextItem.list !== currentItem.list) {
+                    break;
+                }
                 if (nextItem.indentLevel > currentItem.indentLevel) {
                     hasChildren = true;
                     break;
@@ -824,20 +1710,23 @@ function createInternalLinkExtension(plugin: SurveyNotePlugin) {
                 }
             }
             
-            // Check if this item should be hidden (any ancestor is collapsed)
-            for (let j = i - 1; j >= 0; j--) {
-                const potentialParent = allListItems[j];
-                if (potentialParent.indentLevel < currentItem.indentLevel) {
-                    // This is a parent - check if it's collapsed
-                    if (potentialParent.isCollapsed) {
-                        shouldHide = true;
-                        break; // Found the immediate collapsed parent
-                    }
-                    // If we find a parent at the same or less indentation that's not collapsed,
-                    // we can stop checking further up the hierarchy
-                    if (potentialParent.indentLevel <= currentItem.indentLevel - 2) {
-                        break;
-                    }
+            // Nearest preceding items with a smaller indent (kept as a stack so
+            // that long lists are not scanned backwards for every item)
+            while (parents.length > 0 && (parents[parents.length - 1].list !== currentItem.list ||
+                parents[parents.length - 1].indentLevel >= currentItem.indentLevel)) {
+                parents.pop();
+            }
+            
+            // Check if this item should be hidden (its parent is collapsed)
+            for (let j = parents.length - 1; j >= 0; j--) {
+                const parent = parents[j];
+                if (parent.isCollapsed) {
+                    shouldHide = true;
+                    break;
+                }
+                // Stop at a parent that is not collapsed and at least one level up
+                if (parent.indentLevel <= currentItem.indentLevel - 2) {
+                    break;
                 }
             }
             
@@ -846,773 +1735,847 @@ function createInternalLinkExtension(plugin: SurveyNotePlugin) {
                 isCollapsed: currentItem.isCollapsed, 
                 shouldHide 
             });
-            
-            console.log(`parseListStructure: Line ${currentItem.lineIndex}: indent=${currentItem.indentLevel}, hasChildren=${hasChildren}, isCollapsed=${currentItem.isCollapsed}, shouldHide=${shouldHide}, line="${currentItem.originalLine.trim()}"`);
+            parents.push(currentItem);
         }
         
         return listInfo;
     }
 
-    function scanForLinks(text: string, selection?: { from: number; to: number }, collapseStates?: Map<number, boolean>): Range<Decoration>[] {
-        console.log('Scanning for links in text:', text, 'Selection:', selection);
-        const newDecorations: Range<Decoration>[] = [];
-        
-        // Parse list structure first
-        const listStructure = parseListStructure(text);
-        
-        // Store markdown link, image, code block, checkbox, and list item positions for URL scanning
-        const markdownLinkRanges: Array<{from: number, to: number}> = [];
-        const imageRanges: Array<{from: number, to: number}> = [];
-        const codeBlockRanges: Array<{from: number, to: number}> = [];
-        const checkboxRanges: Array<{from: number, to: number}> = [];
-        const listItemRanges: Array<{from: number, to: number}> = [];
-        const hiddenLineRanges: Array<{from: number, to: number}> = [];
-        
-        // First, handle hidden lines due to collapsed parents
+    /**
+     * List structure of lines `first`-`last` (numbered from 1, the whole
+     * section by default): lines hidden by a collapsed parent, the numbers
+     * shown by ordered lists and the progress of parent tasks. The maps are
+     * keyed by line index from line `first`.
+     */
+    function scanLists(state: EditorState, first = 1, last = state.doc.lines): ListDecorations {
+        const from = state.doc.line(first).from;
+        const to = state.doc.line(last).to;
+        const text = state.sliceDoc(from, to);
         const lines = text.split('\n');
-        let lineStart = 0;
-        
+        const collapsedLines = new Set(state.field(listFoldState)
+            .filter(pos => pos >= from && pos <= to)
+            .map(pos => state.doc.lineAt(pos).number - first));
+        const listStructure = parseListStructure(text, collapsedLines);
+        const hiddenRanges: Array<{from: number, to: number}> = [];
+        let lineStart = from;
         for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const lineEnd = lineStart + line.length;
-            
-            // Check if this line should be hidden
-            const lineInfo = listStructure.get(i);
-            if (lineInfo && lineInfo.shouldHide) {
-                console.log('scanForLinks: Processing hidden line:', i, `"${line}"`);
-                
-                // Hide the entire line including newline
-                const hideStart = lineStart;
-                const hideEnd = i < lines.length - 1 ? lineEnd + 1 : lineEnd; // Include newline if not last line
-                
-                hiddenLineRanges.push({from: hideStart, to: hideEnd});
+            const lineEnd = lineStart + lines[i].length;
+            if (listStructure.get(i)?.shouldHide) {
+                // Hide the entire line including newline (if not last line)
+                hiddenRanges.push({ from: lineStart, to: lineEnd < state.doc.length ? lineEnd + 1 : lineEnd });
+            }
+            lineStart = lineEnd + 1;
+        }
+        const orderedNumbers = computeOrderedNumbers(lines, getCodeLineIndexes(state, from, to));
+        return { hiddenRanges, listStructure, orderedNumbers, taskProgress: computeTaskProgress(lines) };
+    }
+    
+    /**
+     * List structure after a transaction that added or folded items in lines
+     * `first`-`last` (see getListLines): those are scanned again and the rest
+     * moves with the text
+     */
+    function updateLists(value: ListDecorations, tr: Transaction, first: number, last: number): ListDecorations {
+        const doc = tr.state.doc;
+        const delta = doc.lines - tr.startState.doc.lines;
+        const scanned = scanLists(tr.state, first, last);
+        // Where the lines after the scanned ones started before the change
+        const start = doc.line(first).from;
+        const end = last < doc.lines ? tr.startState.doc.line(last + 1 - delta).from : Infinity;
+        return {
+            hiddenRanges: [
+                ...value.hiddenRanges.filter(range => range.to <= start),
+                ...scanned.hiddenRanges,
+                ...value.hiddenRanges.filter(range => range.from >= end).map(range => ({
+                    from: tr.changes.mapPos(range.from),
+                    to: tr.changes.mapPos(range.to)
+                }))
+            ],
+            listStructure: spliceLineMap(value.listStructure, scanned.listStructure, first, last, delta),
+            orderedNumbers: spliceLineMap(value.orderedNumbers, scanned.orderedNumbers, first, last, delta),
+            taskProgress: spliceLineMap(value.taskProgress, scanned.taskProgress, first, last, delta)
+        };
+    }
+    
+    function hiddenLineDecorations(hiddenRanges: Array<{from: number, to: number}>): Range<Decoration>[] {
+        return hiddenRanges.map(range => Decoration.replace({ widget: new HiddenLineWidget() }).range(range.from, range.to));
+    }
+    
+    /**
+     * Decorations of code blocks, tables and display math: all of them, or
+     * only those inside `range`
+     */
+    function scanBlocks(
+        state: EditorState, hiddenRanges: Array<{from: number, to: number}>, range?: {from: number, to: number}
+    ): { decorations: Range<Decoration>[], blocks: Range<BlockMarker>[] } {
+        const selection = state.selection.main;
+        const collapseStates = state.field(codeBlockCollapseState);
+        const collapseSettings = plugin.getCodeBlockCollapseSettings();
+        const decorations: Range<Decoration>[] = [];
+        const blocks: Range<BlockMarker>[] = [];
+        
+        syntaxTree(state).iterate({
+            from: range?.from,
+            to: range?.to,
+            mode: IterMode.IgnoreMounts,
+            enter: node => {
+                const { from, to } = node;
+                if (range && (from < range.from || to > range.to)) return;
+                if (isInsideRanges(hiddenRanges, from, to)) return false;
+                const editing = touchesSelection(selection, from, to);
                 
-                const decoration = Decoration.replace({
-                    widget: new class extends WidgetType {
-                        toDOM() {
-                            const span = document.createElement('span');
-                            span.style.display = 'none';
-                            span.style.visibility = 'hidden';
-                            span.style.height = '0';
-                            span.style.width = '0';
-                            span.style.margin = '0';
-                            span.style.padding = '0';
-                            span.style.overflow = 'hidden';
-                            return span;
+                switch (node.name) {
+                    case 'Document':
+                    case 'BulletList':
+                    case 'OrderedList':
+                    case 'ListItem':
+                    case 'Blockquote':
+                        return;
+                    
+                    case 'Paragraph':
+                        // Display math is the only block construct inside a paragraph
+                        return state.sliceDoc(from, to).includes('$$') ? undefined : false;
+                    
+                    case 'FencedCode': {
+                        // Code blocks ```language\ncode```
+                        const block = getCodeBlock(state, node.node);
+                        if (!block) return false;
+                        const { info, language, code } = block;
+                        blocks.push(new BlockMarker(editing, getCodeBlockKey(block)).range(from, to));
+                        
+                        if (editing) {
+                            // Show original text when cursor is in range
+                            const decoration = Decoration.mark({
+                                class: 'code-block-editing',
+                                attributes: {
+                                    'data-language': language,
+                                    'title': `Code block${language ? ` (${language})` : ''}`,
+                                    'style': 'cursor: text; background-color: var(--background-modifier-hover);'
+                                }
+                            });
+                            decorations.push(decoration.range(from, to));
+                            
+                            // Highlight the code while it is being edited (unless it is nested
+                            // in a list item or blockquote, whose prefixes shift the offsets)
+                            const isVerbatim = state.sliceDoc(block.codeFrom, block.codeFrom + code.length) === code;
+                            for (const range of isVerbatim ? highlightCode(code, language) : []) {
+                                const token = Decoration.mark({ class: range.classes });
+                                decorations.push(token.range(block.codeFrom + range.from, block.codeFrom + range.to));
+                            }
+                        } else {
+                            // Show code block widget (or the diagram) when cursor is outside range
+                            const isCollapsed = isCodeBlockCollapsed(block, collapseStates, collapseSettings);
+                            const decoration = Decoration.replace({
+                                widget: language === 'mermaid'
+                                    ? new MermaidWidget(code, plugin)
+                                    : new CodeBlockWidget(code, info, isCollapsed)
+                            });
+                            decorations.push(decoration.range(from, to));
                         }
-                    }()
-                });
-                newDecorations.push(decoration.range(hideStart, hideEnd));
-            }
-            
-            lineStart = lineEnd + 1; // +1 for newline character
-        }
-        
-        // Scan for code blocks ```language\ncode```
-        let match;
-        let codeBlockIndex = 0;
-        codeBlockRegex.lastIndex = 0;
-        while ((match = codeBlockRegex.exec(text)) !== null) {
-            const from = match.index;
-            const to = match.index + match[0].length;
-            const language = match[1] || '';
-            const code = match[2] || '';
-            const isCollapsed = collapseStates ? (collapseStates.get(codeBlockIndex) ?? true) : true;
-            
-            codeBlockRanges.push({from, to});
-            
-            
-            // Check if cursor/selection is within this code block range
-            const cursorInRange = selection && (
-                (selection.from >= from && selection.from <= to) ||
-                (selection.to >= from && selection.to <= to) ||
-                (selection.from <= from && selection.to >= to)
-            );
-            
-            if (cursorInRange) {
-                console.log('Cursor in code block range, showing original text');
-                // Show original text when cursor is in range
-                const decoration = Decoration.mark({
-                    class: 'code-block-editing',
-                    attributes: {
-                        'data-language': language,
-                        'data-block-index': codeBlockIndex.toString(),
-                        'title': `Code block${language ? ` (${language})` : ''}`,
-                        'style': 'cursor: text; background-color: var(--background-modifier-hover);'
+                        return false;
                     }
-                });
-                newDecorations.push(decoration.range(from, to));
-            } else {
-                console.log('Cursor outside code block range, showing code widget');
-                // Show code block widget when cursor is outside range
-                const decoration = Decoration.replace({
-                    widget: new CodeBlockWidget(code, language, isCollapsed)
-                });
-                newDecorations.push(decoration.range(from, to));
+                    
+                    case 'Table': {
+                        // Tables are rendered unless the cursor is inside (their
+                        // cells are then decorated as inline content)
+                        blocks.push(new BlockMarker(editing).range(from, to));
+                        const decoration = editing
+                            ? Decoration.mark({ class: 'table-editing' })
+                            : Decoration.replace({ widget: new TableWidget(state.sliceDoc(from, to)) });
+                        decorations.push(decoration.range(from, to));
+                        return false;
+                    }
+                    
+                    case 'DisplayMath': {
+                        blocks.push(new BlockMarker(editing).range(from, to));
+                        const decoration = editing
+                            // Show the LaTeX source while editing
+                            ? Decoration.mark({ class: 'math-editing' })
+                            : Decoration.replace({ widget: new MathWidget(state.sliceDoc(from + 2, to - 2).trim(), true) });
+                        decorations.push(decoration.range(from, to));
+                        return false;
+                    }
+                    
+                    default:
+                        return false;
+                }
             }
-            codeBlockIndex++;
-        }
+        });
         
-        // Scan for collapse state markers
-        collapseMarkerRegex.lastIndex = 0;
-        while ((match = collapseMarkerRegex.exec(text)) !== null) {
-            const from = match.index;
-            const to = match.index + match[0].length;
-            const markerType = match[1].toLowerCase();
-            
-            console.log('scanForLinks: Found collapse marker:', { 
-                match: `"${match[0]}"`, 
-                type: markerType, 
-                from, 
-                to 
-            });
-            
-            // Replace marker with hidden widget
-            const decoration = Decoration.replace({
-                widget: new CollapseStateWidget(markerType as 'collapsed' | 'hidden')
-            });
-            newDecorations.push(decoration.range(from, to));
+        return { decorations, blocks };
+    }
+    
+    function buildBlockDecorations(state: EditorState): BlockDecorations {
+        const lists = scanLists(state);
+        const { decorations, blocks } = scanBlocks(state, lists.hiddenRanges);
+        return {
+            ...lists,
+            decorations: Decoration.set([...hiddenLineDecorations(lists.hiddenRanges), ...decorations], true),
+            blocks: RangeSet.of(blocks)
+        };
+    }
+    
+    /**
+     * Block decorations with the blocks and hidden lines inside `ranges`
+     * (sorted and apart) scanned again
+     */
+    function rescanBlocks(state: EditorState, value: BlockDecorations, ranges: Array<{from: number, to: number}>): BlockDecorations {
+        if (ranges.length === 0) return value;
+        const decorations: Range<Decoration>[] = [];
+        const blocks: Range<BlockMarker>[] = [];
+        for (const range of ranges) {
+            const result = scanBlocks(state, value.hiddenRanges, range);
+            decorations.push(...result.decorations);
+            decorations.push(...hiddenLineDecorations(value.hiddenRanges.filter(hidden => hidden.from >= range.from && hidden.to <= range.to)));
+            blocks.push(...result.blocks);
         }
-        
-        
-        // Scan for list items (- or * at the beginning of line with spaces)
-        let currentPos = 0;
-        
-        listItemRegex.lastIndex = 0;
-        while ((match = listItemRegex.exec(text)) !== null) {
-            const from = match.index;
-            const to = match.index + match[0].length;
-            const indent = match[1]; // Leading spaces/tabs
-            const bullet = match[2]; // - or *
-            const spaces = match[3]; // Spaces after bullet
-            
-            listItemRanges.push({from, to});
-            
-            // Find which line this match corresponds to
-            let lineNumber = 0;
-            lineStart = 0;
-            for (let i = 0; i < lines.length; i++) {
-                const lineEnd = lineStart + lines[i].length;
-                if (from >= lineStart && from <= lineEnd) {
-                    lineNumber = i;
-                    break;
+        return {
+            ...value,
+            decorations: replaceDecorations(value.decorations, ranges, decorations),
+            blocks: replaceDecorations(value.blocks, ranges, blocks)
+        };
+    }
+    
+    const blockField = StateField.define<BlockDecorations>({
+        create(state) {
+            return buildBlockDecorations(state);
+        },
+        update(value, tr) {
+            const folds = tr.effects.flatMap(effect => effect.is(toggleListFoldEffect) ? [effect.value.pos] : []);
+            if (tr.docChanged || folds.length > 0) {
+                const doc = tr.state.doc;
+                const changed = tr.docChanged ? getChangedBlockRange(tr) : null;
+                let mapped: BlockDecorations = {
+                    ...value,
+                    decorations: value.decorations.map(tr.changes),
+                    blocks: value.blocks.map(tr.changes),
+                    hiddenRanges: value.hiddenRanges.map(range => ({
+                        from: tr.changes.mapPos(range.from, -1),
+                        to: tr.changes.mapPos(range.to, -1)
+                    }))
+                };
+                const ranges: Array<{from: number, to: number}> = changed ? [changed] : [];
+                
+                // Typing inside a line keeps the list structure, unless the
+                // blocks around it changed shape (which may add or end code)
+                const keepsLists = changed !== null && !changed.reshaped && keepsListStructure(tr);
+                if (!keepsLists) {
+                    const positions = changed ? [...folds, changed.from, changed.to] : folds;
+                    const { first, last } = getListLines(doc, Math.min(...positions), Math.max(...positions));
+                    mapped = { ...mapped, ...updateLists(value, tr, first, last) };
+                    ranges.push({ from: doc.line(first).from, to: Math.min(doc.line(last).to + 1, doc.length) });
                 }
-                lineStart = lineEnd + 1; // +1 for newline character
+                
+                // The cursor may also have entered or left other blocks
+                const selection = tr.startState.selection.main.map(tr.changes);
+                ranges.push(...getToggledBlocks(mapped.blocks, tr.state.selection.main, [selection, tr.state.selection.main]));
+                return rescanBlocks(tr.state, mapped, mergeRanges(ranges));
             }
-            
-            // Get list structure info for this line
-            const listInfo = listStructure.get(lineNumber) || { hasChildren: false, isCollapsed: false, shouldHide: false };
-            
-            // Skip creating list widgets for items that should be hidden or overlap with hidden ranges
-            const overlapsWithHidden = hiddenLineRanges.some(range => 
-                (from >= range.from && from < range.to) || 
-                (to > range.from && to <= range.to) ||
-                (from <= range.from && to >= range.to)
-            );
-            
-            if (listInfo.shouldHide || overlapsWithHidden) {
-                console.log('scanForLinks: Skipping list widget creation for hidden line:', lineNumber, `"${lines[lineNumber]}"`, 'shouldHide:', listInfo.shouldHide, 'overlapsWithHidden:', overlapsWithHidden);
-                continue;
+            // The parser got further (in the background, so all is scanned again)
+            if (syntaxTree(tr.state) !== syntaxTree(tr.startState)) {
+                return buildBlockDecorations(tr.state);
+            }
+            // A code block was collapsed or expanded
+            const keys = tr.effects.flatMap(effect => effect.is(toggleCodeBlockEffect) ? [effect.value.key] : []);
+            if (keys.length > 0) {
+                const toggled: Array<{from: number, to: number}> = [];
+                value.blocks.between(0, tr.state.doc.length, (from, to, marker) => {
+                    if (marker.key !== undefined && keys.includes(marker.key)) toggled.push({ from, to });
+                });
+                return rescanBlocks(tr.state, value, toggled);
+            }
+            if (!tr.selection) {
+                return value;
             }
             
-            console.log('scanForLinks: Found list item:', { 
-                match: `"${match[0]}"`, 
-                indent: `"${indent}"`, 
-                bullet: `"${bullet}"`, 
-                spaces: `"${spaces}"`, 
-                from, 
-                to,
-                lineNumber,
-                hasChildren: listInfo.hasChildren,
-                isCollapsed: listInfo.isCollapsed,
-                shouldHide: listInfo.shouldHide
-            });
-            
-            // Replace the entire match (indent + bullet + spaces) with our custom widget
-            const decoration = Decoration.replace({
-                widget: new ListBulletWidget(indent, listInfo.hasChildren, listInfo.isCollapsed, lineNumber)
-            });
-            newDecorations.push(decoration.range(from, to));
+            // Only re-decorate the blocks the cursor entered or left
+            const selection = tr.state.selection.main;
+            return rescanBlocks(tr.state, value, getToggledBlocks(value.blocks, selection, [tr.startState.selection.main, selection]));
+        },
+        provide: f => EditorView.decorations.from(f, value => value.decorations)
+    });
+    
+    /**
+     * Chips for the metadata fields (dates, priority, recurrence) of the task
+     * item starting at `itemFrom` that start inside `range`. Fields touching
+     * the selection show their source.
+     */
+    function scanTaskMetadata(
+        state: EditorState, itemFrom: number, range: {from: number, to: number},
+        decorations: Range<Decoration>[], constructs: CursorConstruct[]
+    ) {
+        const line = state.doc.lineAt(itemFrom);
+        if (line.to < range.from) return;
+        const taskMatch = line.text.match(TASK_LINE_REGEX);
+        // Only items at the start of a line (not inside a blockquote)
+        if (!taskMatch || line.from + taskMatch[1].length !== itemFrom) return;
+        
+        const isOpen = !['done', 'cancelled'].includes(getTaskState(taskMatch[2]).name);
+        for (const field of parseTaskMetadata(line.text)) {
+            const from = line.from + field.from;
+            const to = line.from + field.to;
+            if (field.from < taskMatch[0].length || from < range.from || from >= range.to) continue;
+            const editing = touchesSelection(state.selection.main, from, to);
+            constructs.push({ from, to, editing });
+            if (!editing) {
+                decorations.push(Decoration.replace({ widget: new TaskMetadataWidget(field, isOpen) }).range(from, to));
+            }
         }
+    }
+    
+    /**
+     * Inline decorations (list markers, links, images, inline math, URLs) of
+     * the nodes starting inside `range`. Nodes inside rendered blocks and
+     * hidden lines are skipped.
+     */
+    function scanInline(
+        state: EditorState, range: {from: number, to: number}, blockState: BlockDecorations
+    ): { decorations: Range<Decoration>[], constructs: CursorConstruct[] } {
+        const selection = state.selection.main;
+        const { hiddenRanges, listStructure, orderedNumbers, taskProgress } = blockState;
+        const decorations: Range<Decoration>[] = [];
+        const constructs: CursorConstruct[] = [];
+        // Images are grouped by line once the range has been visited
+        const images: Array<{from: number, to: number, altText: string, imagePath: string, options?: string}> = [];
         
-        // Scan for checkboxes - [ ] and - [x]
-        checkboxRegex.lastIndex = 0;
-        while ((match = checkboxRegex.exec(text)) !== null) {
-            const from = match.index;
-            const to = match.index + match[0].length;
-            const indent = match[1]; // Leading spaces/tabs
-            const checkboxState = match[2]; // [x] or [ ]
-            const isChecked = checkboxState === '[x]';
-            
-            checkboxRanges.push({from, to});
-            
-            // Find which line this match corresponds to
-            let lineNumber = 0;
-            lineStart = 0;
-            for (let i = 0; i < lines.length; i++) {
-                const lineEnd = lineStart + lines[i].length;
-                if (from >= lineStart && from <= lineEnd) {
-                    lineNumber = i;
-                    break;
+        syntaxTree(state).iterate({
+            from: range.from,
+            to: range.to,
+            mode: IterMode.IgnoreMounts,
+            enter: node => {
+                const { from, to } = node;
+                if (from >= range.to && to > from) return false;
+                if (isInsideRanges(hiddenRanges, from, to)) return false;
+                const editing = touchesSelection(selection, from, to);
+                
+                switch (node.name) {
+                    case 'FencedCode':
+                    case 'CodeBlock':
+                    case 'InlineCode':
+                    case 'DisplayMath':
+                        return false;
+                    case 'Table':
+                        // Cells of a rendered table are part of its widget
+                        return editing ? undefined : false;
+                    case 'ListItem':
+                        // The chips of a task may be redecorated without its list marker
+                        scanTaskMetadata(state, from, range, decorations, constructs);
+                        break;
+                }
+                // Nodes starting before the range belong to another range
+                if (from < range.from) return;
+                
+                switch (node.name) {
+                    case 'InlineMath': {
+                        constructs.push({ from, to, editing });
+                        const decoration = editing
+                            // Show the LaTeX source while editing
+                            ? Decoration.mark({ class: 'math-editing' })
+                            : Decoration.replace({ widget: new MathWidget(state.sliceDoc(from + 1, to - 1).trim(), false) });
+                        decorations.push(decoration.range(from, to));
+                        return false;
+                    }
+                    
+                    case 'ListMark': {
+                        // List bullets, ordered list numbers and checkboxes
+                        const item = node.node.parent;
+                        const list = item?.parent;
+                        if (!item || !list) return false;
+                        
+                        const line = state.doc.lineAt(from);
+                        const indent = state.sliceDoc(line.from, from);
+                        const spaces = state.sliceDoc(to, line.to).match(/^ +/);
+                        // Only items at the start of a line (not inside a blockquote)
+                        if (!/^[ \t]*$/.test(indent) || !spaces) return false;
+                        
+                        const lineNumber = line.number - 1;
+                        const listInfo = listStructure.get(lineNumber) || { hasChildren: false, isCollapsed: false, shouldHide: false };
+                        if (listInfo.shouldHide) return false;
+                        
+                        const mark = state.sliceDoc(from, to);
+                        const markerEnd = to + spaces[0].length;
+                        if (list.name === 'OrderedList') {
+                            // Show the computed number so the list reads correctly even before renumbering
+                            const number = orderedNumbers.get(lineNumber) ?? parseInt(mark, 10);
+                            const delimiter = mark.substring(mark.length - 1);
+                            const decoration = Decoration.replace({
+                                widget: new OrderedListWidget(indent, number, delimiter, listInfo.hasChildren, listInfo.isCollapsed, lineNumber)
+                            });
+                            decorations.push(decoration.range(line.from, markerEnd));
+                            return false;
+                        }
+                        if (mark !== '-' && mark !== '*') return false;
+                        
+                        // - [ ], - [x] and the extended states - [/], - [-], - [>], - [?]
+                        // (GFM task items only know the first two, so the line text is checked)
+                        const taskMatch = mark === '-' ? line.text.match(TASK_LINE_REGEX) : null;
+                        if (taskMatch && line.from + taskMatch[1].length + 2 === markerEnd) {
+                            const decoration = Decoration.replace({
+                                widget: new CheckboxWidget(indent, taskMatch[2], lineNumber, listInfo.hasChildren, listInfo.isCollapsed, taskProgress.get(lineNumber))
+                            });
+                            decorations.push(decoration.range(line.from, line.from + taskMatch[0].length));
+                            return false;
+                        }
+                        
+                        // Replace indent + bullet + spaces with our custom widget
+                        const decoration = Decoration.replace({
+                            widget: new ListBulletWidget(indent, listInfo.hasChildren, listInfo.isCollapsed, lineNumber)
+                        });
+                        decorations.push(decoration.range(line.from, markerEnd));
+                        return false;
+                    }
+                    
+                    case 'Image': {
+                        // Markdown images ![alt](src)
+                        const marks = node.node.getChildren('LinkMark');
+                        const url = node.node.getChild('URL');
+                        // Widgets of a view plugin cannot replace line breaks
+                        if (url && marks.length >= 2 && state.doc.lineAt(from).to >= to) {
+                            // Options follow the path: ![alt](image.png|300x200|center)
+                            const [imagePath, ...options] = state.sliceDoc(url.from, url.to).split('|');
+                            images.push({ from, to, altText: state.sliceDoc(marks[0].to, marks[1].from), imagePath, options: options.join('|') });
+                        }
+                        return false;
+                    }
+                    
+                    case 'Embed': {
+                        // Internal images ![[filename|size]]
+                        const content = state.sliceDoc(from + 3, to - 2);
+                        const parts = content.split('|');
+                        if (IMAGE_EXTENSION_REGEX.test(parts[0].trim())) {
+                            images.push({ from, to, altText: '', imagePath: parts[0], options: parts.slice(1).join('|') });
+                            return false;
+                        }
+                        
+                        const link = parseInternalLink(content);
+                        const linkTarget = link.path + link.subpath;
+                        constructs.push({ from, to, editing });
+                        
+                        // PDFs, audio and video ![[paper.pdf#page=3]], ![[clip.mp4]]
+                        const mediaKind = getMediaKind(link.path);
+                        if (mediaKind) {
+                            const decoration = editing
+                                ? Decoration.mark({ class: 'media-editing', attributes: { 'title': `Embed: ${linkTarget}` } })
+                                : Decoration.replace({ widget: new MediaWidget(mediaKind, linkTarget, getSourcePath(), plugin) });
+                            decorations.push(decoration.range(from, to));
+                            return false;
+                        }
+                        
+                        // Notes and note sections ![[Note]], ![[Note#Heading]]
+                        if (editing) {
+                            // Show original text when cursor is in range
+                            const decoration = Decoration.mark({
+                                class: 'transclusion-editing',
+                                attributes: { 'title': `Embed: ${linkTarget}` }
+                            });
+                            decorations.push(decoration.range(from, to));
+                        } else {
+                            const decoration = Decoration.replace({
+                                widget: new TransclusionWidget(linkTarget, link.display || linkTarget, getSourcePath(), plugin)
+                            });
+                            decorations.push(decoration.range(from, to));
+                        }
+                        return false;
+                    }
+                    
+                    case 'WikiLink': {
+                        // Internal links [[filename]]: the target without the alias (e.g. "Note#Heading")
+                        const link = parseInternalLink(state.sliceDoc(from + 2, to - 2));
+                        const linkTarget = link.path + link.subpath;
+                        constructs.push({ from, to, editing });
+                        
+                        if (editing) {
+                            // Show original text when cursor is in range
+                            const decoration = Decoration.mark({
+                                class: 'internal-link-mark',
+                                attributes: {
+                                    'data-filename': linkTarget,
+                                    'data-link-type': 'internal',
+                                    'title': `Open "${linkTarget}"`,
+                                    'style': 'cursor: pointer; color: var(--text-accent); text-decoration: none;'
+                                }
+                            });
+                            decorations.push(decoration.range(from, to));
+                        } else {
+                            // Show the alias (or "Note > Heading") when cursor is outside range
+                            const decoration = Decoration.replace({
+                                widget: new InternalLinkWidget(link.display || linkTarget, linkTarget)
+                            });
+                            decorations.push(decoration.range(from, to));
+                        }
+                        return false;
+                    }
+                    
+                    case 'Link': {
+                        // Markdown links [name](url); reference links have no URL
+                        const marks = node.node.getChildren('LinkMark');
+                        const urlNode = node.node.getChild('URL');
+                        if (!urlNode || marks.length < 2) return;
+                        const linkText = state.sliceDoc(marks[0].to, marks[1].from);
+                        const url = state.sliceDoc(urlNode.from, urlNode.to);
+                        // Widgets of a view plugin cannot replace line breaks, so
+                        // a link wrapped over several lines always shows its source
+                        const multiline = state.doc.lineAt(from).to < to;
+                        if (!multiline) constructs.push({ from, to, editing });
+                        
+                        if (editing || multiline) {
+                            // Show original text when cursor is in range - use mark decoration
+                            const decoration = Decoration.mark({
+                                class: 'markdown-link-editing',
+                                attributes: {
+                                    'data-url': url,
+                                    'data-link-type': 'markdown',
+                                    'title': `Link: ${url}`,
+                                    'style': 'cursor: pointer; color: var(--text-accent); background-color: var(--background-modifier-hover);'
+                                }
+                            });
+                            decorations.push(decoration.range(from, to));
+                        } else {
+                            // Show widget when cursor is outside range
+                            const decoration = Decoration.replace({
+                                widget: new MarkdownLinkWidget(linkText, url)
+                            });
+                            decorations.push(decoration.range(from, to));
+                        }
+                        return false;
+                    }
+                    
+                    case 'URL': {
+                        // Standalone URLs (autolinks); URLs of links and images are not entered
+                        const url = state.sliceDoc(from, to);
+                        if (!/^https?:\/\//i.test(url)) return false;
+                        const decoration = Decoration.mark({
+                            class: 'url-link-mark',
+                            attributes: {
+                                'data-url': url,
+                                'data-link-type': 'url',
+                                'title': `Open ${url}`,
+                                'style': 'cursor: pointer; color: var(--text-accent); text-decoration: underline;'
+                            }
+                        });
+                        decorations.push(decoration.range(from, to));
+                        return false;
+                    }
                 }
-                lineStart = lineEnd + 1; // +1 for newline character
-            }
-            
-            // Skip creating checkbox widgets for items that should be hidden
-            const overlapsWithHidden = hiddenLineRanges.some(range => 
-                (from >= range.from && from < range.to) || 
-                (to > range.from && to <= range.to) ||
-                (from <= range.from && to >= range.to)
-            );
-            
-            if (overlapsWithHidden) {
-                console.log('scanForLinks: Skipping checkbox widget creation for hidden line:', lineNumber);
-                continue;
             }
-            
-            // Get list structure info for this line (includes checkbox structure now)
-            const listInfo = listStructure.get(lineNumber) || { hasChildren: false, isCollapsed: false, shouldHide: false };
-            
-            console.log('scanForLinks: Found checkbox:', { 
-                match: `"${match[0]}"`, 
-                indent: `"${indent}"`, 
-                checkboxState: `"${checkboxState}"`,
-                isChecked,
-                from, 
-                to,
-                lineNumber,
-                hasChildren: listInfo.hasChildren,
-                isCollapsed: listInfo.isCollapsed,
-                shouldHide: listInfo.shouldHide
-            });
-            
-            // Replace the entire match (indent + "- [x] " or "- [ ] ") with our custom widget
-            const decoration = Decoration.replace({
-                widget: new CheckboxWidget(indent, isChecked, lineNumber, listInfo.hasChildren, listInfo.isCollapsed)
-            });
-            newDecorations.push(decoration.range(from, to));
+        });
+        
+        // Images: lines with several images are shown as one group
+        const imagesByLine = new Map<number, typeof images>();
+        for (const image of images) {
+            const lineNumber = state.doc.lineAt(image.from).number;
+            imagesByLine.set(lineNumber, [...(imagesByLine.get(lineNumber) ?? []), image]);
         }
         
-        // First, scan for lines with multiple images and process them as groups
-        const processedRanges = new Set<string>();
-        const imageLines = text.split('\n');
-        let imageLineStart = 0;
-
-        for (let lineIndex = 0; lineIndex < imageLines.length; lineIndex++) {
-            const line = imageLines[lineIndex];
-            const lineEnd = imageLineStart + line.length;
-            
-            // Count images in this line
-            const internalImages = [...line.matchAll(/!\[\[([^\]]+)\]\]/g)];
-            const markdownImages = [...line.matchAll(/!\[([^\]]*)\]\(([^)]+)\)/g)];
-            const totalImages = internalImages.length + markdownImages.length;
-            
-            if (totalImages > 1) {
-                // Check if cursor/selection is within this multi-image line
-                const cursorInRange = selection && (
-                    (selection.from >= imageLineStart && selection.from <= lineEnd) ||
-                    (selection.to >= imageLineStart && selection.to <= lineEnd) ||
-                    (selection.from <= imageLineStart && selection.to >= lineEnd)
-                );
-
-                if (cursorInRange) {
-                    console.log('Cursor in multi-image line, showing original text');
+        for (const [lineNumber, lineImages] of imagesByLine) {
+            if (lineImages.length > 1) {
+                const line = state.doc.line(lineNumber);
+                const editing = touchesSelection(selection, line.from, line.to);
+                constructs.push({ from: line.from, to: line.to, editing });
+                if (editing) {
                     // Show original text when cursor is in range
                     const decoration = Decoration.mark({
                         class: 'image-editing',
                         attributes: {
                             'data-image-type': 'multi-image',
-                            'title': `Multiple images (${totalImages} images)`,
+                            'title': `Multiple images (${lineImages.length} images)`,
                             'style': 'cursor: pointer; color: var(--text-accent); background-color: var(--background-modifier-hover);'
                         }
                     });
-                    newDecorations.push(decoration.range(imageLineStart, lineEnd));
+                    decorations.push(decoration.range(line.from, line.to));
                 } else {
-                    // Process as multi-image line
-                    const images: Array<{altText: string, imagePath: string, width?: number, height?: number, align?: 'left' | 'center' | 'right'}> = [];
-                    
-                    // Collect all images from this line
-                    const allMatches: Array<{type: 'internal' | 'markdown', match: RegExpMatchArray, index: number}> = [];
-                    
-                    internalImages.forEach(match => {
-                        allMatches.push({type: 'internal', match, index: match.index || 0});
-                    });
-                    
-                    markdownImages.forEach(match => {
-                        allMatches.push({type: 'markdown', match, index: match.index || 0});
-                    });
-                    
-                    // Sort by position in line
-                    allMatches.sort((a, b) => a.index - b.index);
-                    
-                    // Process each match
-                    allMatches.forEach(item => {
-                        if (item.type === 'internal') {
-                            const fullContent = item.match[1];
-                            const parts = fullContent.split('|');
-                            const filename = parts[0];
-                            const optionsStr = parts.slice(1).join('|');
-                            const { width, height } = parseImageOptions(optionsStr);
-                            images.push({ altText: '', imagePath: filename, width, height });
-                        } else {
-                            const altText = item.match[1] || '';
-                            const imagePath = item.match[2];
-                            images.push({ altText, imagePath, width: undefined, height: undefined });
-                        }
-                    });
-                    
                     // Create multi-image widget for the entire line
                     const decoration = Decoration.replace({
-                        widget: new MultiImageWidget(images, plugin)
+                        widget: new MultiImageWidget(lineImages.map(image => ({
+                            altText: image.altText,
+                            imagePath: image.imagePath,
+                            options: parseImageOptions(image.options ?? '')
+                        })), plugin)
                     });
-                    newDecorations.push(decoration.range(imageLineStart, lineEnd));
-                }
-                
-                // Mark this range as processed
-                processedRanges.add(`${imageLineStart}-${lineEnd}`);
-            }
-            
-            imageLineStart = lineEnd + 1; // +1 for newline character
-        }
-
-        // Scan for internal images ![[filename|size]]
-        internalImageRegex.lastIndex = 0;
-        while ((match = internalImageRegex.exec(text)) !== null) {
-            const from = match.index;
-            const to = match.index + match[0].length;
-            
-            // Skip if this image is part of a multi-image line
-            let shouldSkip = false;
-            for (const range of processedRanges) {
-                const [rangeStart, rangeEnd] = range.split('-').map(Number);
-                if (from >= rangeStart && to <= rangeEnd) {
-                    shouldSkip = true;
-                    break;
-                }
-            }
-            if (shouldSkip) continue;
-            
-            const fullContent = match[1];
-            
-            // Parse filename and options (align|size)
-            const parts = fullContent.split('|');
-            const filename = parts[0];
-            const optionsStr = parts.slice(1).join('|'); // Rejoin remaining parts
-            
-            imageRanges.push({from, to});
-            
-            
-            // Parse options (size)
-            const { width, height } = parseImageOptions(optionsStr);
-            
-            // Check if cursor/selection is within this image range
-            const cursorInRange = selection && (
-                (selection.from >= from && selection.from <= to) ||
-                (selection.to >= from && selection.to <= to) ||
-                (selection.from <= from && selection.to >= to)
-            );
-            
-            if (cursorInRange) {
-                // Show original text when cursor is in range
-                const decoration = Decoration.mark({
-                    class: 'image-editing',
-                    attributes: {
-                        'data-image-path': filename,
-                        'data-alt-text': '',
-                        'title': `Image: ${filename}${optionsStr ? ` (${optionsStr})` : ''}`,
-                        'style': 'cursor: pointer; color: var(--text-accent); background-color: var(--background-modifier-hover);'
-                    }
-                });
-                newDecorations.push(decoration.range(from, to));
-            } else {
-                // Show image widget when cursor is outside range
-                const decoration = Decoration.replace({
-                    widget: new ImageWidget('', filename, plugin, width, height)
-                });
-                newDecorations.push(decoration.range(from, to));
-            }
-        }
-        
-        // Scan for markdown images ![alt](src)
-        imageRegex.lastIndex = 0;
-        while ((match = imageRegex.exec(text)) !== null) {
-            const from = match.index;
-            const to = match.index + match[0].length;
-            
-            // Skip if this image is part of a multi-image line
-            let shouldSkip = false;
-            for (const range of processedRanges) {
-                const [rangeStart, rangeEnd] = range.split('-').map(Number);
-                if (from >= rangeStart && to <= rangeEnd) {
-                    shouldSkip = true;
-                    break;
+                    decorations.push(decoration.range(line.from, line.to));
                 }
+                continue;
             }
-            if (shouldSkip) continue;
-            
-            const altText = match[1];
-            const imagePath = match[2];
-            
-            imageRanges.push({from, to});
-            
-            
-            // Check if cursor/selection is within this image range
-            const cursorInRange = selection && (
-                (selection.from >= from && selection.from <= to) ||
-                (selection.to >= from && selection.to <= to) ||
-                (selection.from <= from && selection.to >= to)
-            );
             
-            if (cursorInRange) {
-                console.log('Cursor in image range, showing original text');
+            const { from, to, altText, imagePath, options } = lineImages[0];
+            const editing = touchesSelection(selection, from, to);
+            constructs.push({ from, to, editing });
+            if (editing) {
                 // Show original text when cursor is in range
+                const title = `Image: ${altText || imagePath}${options ? ` (${options})` : ''}`;
                 const decoration = Decoration.mark({
                     class: 'image-editing',
                     attributes: {
                         'data-image-path': imagePath,
                         'data-alt-text': altText,
-                        'title': `Image: ${altText || imagePath}`,
+                        'title': title,
                         'style': 'cursor: pointer; color: var(--text-accent); background-color: var(--background-modifier-hover);'
                     }
                 });
-                newDecorations.push(decoration.range(from, to));
+                decorations.push(decoration.range(from, to));
             } else {
                 // Show image widget when cursor is outside range
                 const decoration = Decoration.replace({
-                    widget: new ImageWidget(altText, imagePath, plugin)
+                    widget: new ImageWidget(altText, imagePath, plugin, parseImageOptions(options ?? ''))
                 });
-                newDecorations.push(decoration.range(from, to));
+                decorations.push(decoration.range(from, to));
             }
         }
         
-        // Scan for internal links [[filename]] (non-image links only)
-        internalLinkRegex.lastIndex = 0;
-        while ((match = internalLinkRegex.exec(text)) !== null) {
-            const from = match.index;
-            const to = match.index + match[0].length;
-            const fullContent = match[1];
-            
-            // Skip if this position overlaps with an image, code block, list item, or checkbox range
-            const overlapsWithSpecial = [...imageRanges, ...codeBlockRanges, ...listItemRanges, ...checkboxRanges].some(range => 
-                (from >= range.from && from < range.to) || 
-                (to > range.from && to <= range.to) ||
-                (from <= range.from && to >= range.to)
-            );
-            
-            if (overlapsWithSpecial) {
-                console.log('Skipping internal link that overlaps with special content:', match[0]);
-                continue;
-            }
-            
-            // Parse filename
-            const parts = fullContent.split('|');
-            const filename = parts[0];
-            
-            console.log('Found internal link:', { match: match[0], filename, from, to });
-            
-            // Always treat [[...]] as regular internal link (images use ![[...]])
-            const decoration = Decoration.mark({
-                class: 'internal-link-mark',
-                attributes: {
-                    'data-filename': filename,
-                    'data-link-type': 'internal',
-                    'title': `Open "${filename}"`,
-                    'style': 'cursor: pointer; color: var(--text-accent); text-decoration: none;'
-                }
-            });
-            
-            newDecorations.push(decoration.range(from, to));
-        }
+        return { decorations, constructs };
+    }
+    
+    /**
+     * Inline decorations of the visible part of a section. Scrolling only
+     * scans what became visible and moving the cursor only re-decorates the
+     * constructs it entered or left; edits rescan the visible ranges.
+     */
+    class InlineDecorations implements PluginValue {
+        decorations: DecorationSet = Decoration.none;
+        private constructs: CursorConstruct[] = [];
+        // Ranges the decorations were computed for
+        private covered: Array<{from: number, to: number}> = [];
         
-        // Scan for markdown links [name](url)
-        markdownLinkRegex.lastIndex = 0;
-        while ((match = markdownLinkRegex.exec(text)) !== null) {
-            const from = match.index;
-            const to = match.index + match[0].length;
-            const linkText = match[1];
-            const url = match[2];
-            
-            markdownLinkRanges.push({from, to});
-            
-            console.log('Found markdown link:', { match: match[0], linkText, url, from, to });
-            
-            // Check if cursor/selection is within this markdown link range
-            const cursorInRange = selection && (
-                (selection.from >= from && selection.from <= to) ||
-                (selection.to >= from && selection.to <= to) ||
-                (selection.from <= from && selection.to >= to)
-            );
-            
-            if (cursorInRange) {
-                console.log('Cursor in markdown link range, showing original text');
-                // Show original text when cursor is in range - use mark decoration
-                const decoration = Decoration.mark({
-                    class: 'markdown-link-editing',
-                    attributes: {
-                        'data-url': url,
-                        'data-link-type': 'markdown',
-                        'title': `Link: ${url}`,
-                        'style': 'cursor: pointer; color: var(--text-accent); background-color: var(--background-modifier-hover);'
-                    }
-                });
-                newDecorations.push(decoration.range(from, to));
-            } else {
-                console.log('Cursor outside markdown link range, showing widget');
-                // Show widget when cursor is outside range
-                const decoration = Decoration.replace({
-                    widget: new MarkdownLinkWidget(linkText, url)
-                });
-                newDecorations.push(decoration.range(from, to));
-            }
+        constructor(view: EditorView) {
+            this.rebuild(view);
         }
         
-        // Scan for standalone URLs (but not if they're already part of markdown links, images, code blocks, or list items)
-        const excludedPositions = new Set<number>();
-        markdownLinkRanges.forEach(range => {
-            for (let i = range.from; i < range.to; i++) {
-                excludedPositions.add(i);
-            }
-        });
-        imageRanges.forEach(range => {
-            for (let i = range.from; i < range.to; i++) {
-                excludedPositions.add(i);
+        update(update: ViewUpdate) {
+            // Folding an item changes the list widgets and the hidden lines
+            if (update.docChanged || syntaxTree(update.state) !== syntaxTree(update.startState) ||
+                update.state.field(blockField).listStructure !== update.startState.field(blockField).listStructure) {
+                this.rebuild(update.view);
+                return;
             }
-        });
-        codeBlockRanges.forEach(range => {
-            for (let i = range.from; i < range.to; i++) {
-                excludedPositions.add(i);
+            if (update.viewportChanged) {
+                this.extend(update.view);
             }
-        });
-        listItemRanges.forEach(range => {
-            for (let i = range.from; i < range.to; i++) {
-                excludedPositions.add(i);
+            if (update.selectionSet) {
+                const blocks = update.state.field(blockField).blocks;
+                const startBlocks = update.startState.field(blockField).blocks;
+                const selection = update.state.selection.main;
+                // Cells of a table are decorated only while it is being edited
+                const toggledBlocks = blocks === startBlocks
+                    ? []
+                    : getToggledBlocks(startBlocks, selection, [update.startState.selection.main, selection]);
+                const toggled = [...getToggledConstructs(this.constructs, selection), ...toggledBlocks];
+                if (toggled.length > 0) {
+                    this.redecorate(update.state, getOutermostRanges(toggled));
+                }
             }
-        });
-        checkboxRanges.forEach(range => {
-            for (let i = range.from; i < range.to; i++) {
-                excludedPositions.add(i);
+        }
+        
+        private scan(state: EditorState, ranges: Array<{from: number, to: number}>) {
+            const blockState = state.field(blockField);
+            const decorations: Range<Decoration>[] = [];
+            const constructs: CursorConstruct[] = [];
+            for (const range of ranges) {
+                const result = scanInline(state, range, blockState);
+                decorations.push(...result.decorations);
+                constructs.push(...result.constructs);
             }
-        });
+            return { decorations, constructs };
+        }
         
-        urlRegex.lastIndex = 0;
-        while ((match = urlRegex.exec(text)) !== null) {
-            const from = match.index;
-            const to = match.index + match[0].length;
-            const url = match[1];
-            
-            // Skip if this URL is part of a markdown link or image
-            if (excludedPositions.has(from)) continue;
-            
-            console.log('Found standalone URL:', { match: match[0], url, from, to });
-            
-            const decoration = Decoration.mark({
-                class: 'url-link-mark',
-                attributes: {
-                    'data-url': url,
-                    'data-link-type': 'url',
-                    'title': `Open ${url}`,
-                    'style': 'cursor: pointer; color: var(--text-accent); text-decoration: underline;'
-                }
-            });
-            
-            newDecorations.push(decoration.range(from, to));
+        private rebuild(view: EditorView) {
+            this.covered = view.visibleRanges.map(({ from, to }) => ({ from, to }));
+            const { decorations, constructs } = this.scan(view.state, this.covered);
+            this.decorations = Decoration.set(decorations, true);
+            this.constructs = constructs;
         }
         
-        // Sort decorations by position to avoid the "Ranges must be added sorted" error
-        newDecorations.sort((a, b) => a.from - b.from);
+        /**
+         * Keep the decorations that are still visible and scan the ranges that
+         * became visible
+         */
+        private extend(view: EditorView) {
+            const visible = view.visibleRanges.map(({ from, to }) => ({ from, to }));
+            const isVisible = (from: number) => visible.some(range => from >= range.from && from < range.to);
+            const { decorations, constructs } = this.scan(view.state, subtractRanges(visible, this.covered));
+            this.decorations = this.decorations.update({ filter: from => isVisible(from), add: decorations, sort: true });
+            this.constructs = [...this.constructs.filter(construct => isVisible(construct.from)), ...constructs];
+            this.covered = visible;
+        }
         
-        console.log('Creating decorations:', newDecorations.length);
-        return newDecorations;
+        private redecorate(state: EditorState, ranges: Array<{from: number, to: number}>) {
+            const { decorations, constructs } = this.scan(state, ranges);
+            this.decorations = replaceDecorations(this.decorations, ranges, decorations);
+            this.constructs = [
+                ...this.constructs.filter(construct => !ranges.some(range => construct.from >= range.from && construct.to <= range.to)),
+                ...constructs
+            ];
+        }
     }
-
-    const linkField = StateField.define<DecorationSet>({
-        create(state) {
-            console.log('Creating link field with initial state');
-            const text = state.doc.toString();
-            const selection = state.selection.main;
-            const collapseStates = state.field(codeBlockCollapseState);
-            const decorations = scanForLinks(text, selection, collapseStates);
-            return Decoration.set(decorations);
-        },
-        update(decorations, tr) {
-            // If document changed or collapse state changed, rebuild decorations
-            if (tr.docChanged || tr.effects.some(e => e.is(toggleCodeBlockEffect))) {
-                const text = tr.state.doc.toString();
-                const selection = tr.state.selection.main;
-                const collapseStates = tr.state.field(codeBlockCollapseState);
-                console.log('Document or collapse state changed, rebuilding all decorations');
-                const newDecorations = scanForLinks(text, selection, collapseStates);
-                return Decoration.set(newDecorations);
-            }
-            
-            // For selection changes only, try to map existing decorations safely
-            if (tr.selection) {
-                try {
-                    decorations = decorations.map(tr.changes);
-                    const text = tr.state.doc.toString();
-                    const selection = tr.state.selection.main;
-                    const collapseStates = tr.state.field(codeBlockCollapseState);
-                    console.log('Selection changed, rescanning for links');
-                    const newDecorations = scanForLinks(text, selection, collapseStates);
-                    return Decoration.set(newDecorations);
-                } catch (error) {
-                    console.log('Error mapping decorations, rebuilding:', error);
-                    const text = tr.state.doc.toString();
-                    const selection = tr.state.selection.main;
-                    const collapseStates = tr.state.field(codeBlockCollapseState);
-                    const newDecorations = scanForLinks(text, selection, collapseStates);
-                    return Decoration.set(newDecorations);
-                }
-            }
-            
-            return decorations;
-        },
-        provide: f => EditorView.decorations.from(f)
-    });
     
-    return [codeBlockCollapseState, linkField];
+    return [
+        codeBlockCollapseState.init(() => new Map(Object.entries(codeBlockStates))),
+        listFoldState.init(state => {
+            const lines = state.doc.toString().split('\n');
+            return resolveListFoldAnchors(lines, listFolds).map(index => state.doc.line(index + 1).from);
+        }),
+        blockField,
+        ViewPlugin.fromClass(InlineDecorations, { decorations: value => value.decorations })
+    ];
 }
 
-function createListInputHandler() {
-    function handleInput(view: EditorView, from: number, to: number, text: string): boolean {
-        console.log('handleInput: Input handler called:', { 
-            from, 
-            to, 
-            text: `"${text}"`, 
-            charCode: text.charCodeAt(0),
-            length: text.length 
-        });
-        
-        // Check if space was just typed
-        if (text === ' ') {
-            const doc = view.state.doc;
-            const line = doc.lineAt(from);
-            const lineText = line.text;
-            const pos = from - line.from;
-            
-            console.log('handleInput: Space typed at position:', pos, 'in line:', `"${lineText}"`);
-            console.log('handleInput: Current line length:', lineText.length, 'cursor relative pos:', pos);
-            
-            // Check if we're after - or * at the beginning of a line
-            if (pos >= 1) {
-                const beforeCursor = lineText.substring(0, pos);
-                console.log('handleInput: Text before cursor:', `"${beforeCursor}"`);
-                
-                const listMatch = beforeCursor.match(/^(\s*)([-*])$/);
-                
-                if (listMatch) {
-                    const indent = listMatch[1];
-                    const bullet = listMatch[2];
-                    
-                    console.log('handleInput: MATCHED! Converting list item:', { 
-                        indent: `"${indent}"`, 
-                        bullet: `"${bullet}"`,
-                        indentLength: indent.length,
-                        totalMatch: `"${listMatch[0]}"`
-                    });
-                    
-                    // Replace the bullet with bullet + space to create the list pattern
-                    const lineStart = line.from;
-                    const bulletStart = lineStart + indent.length;
-                    const bulletEnd = lineStart + beforeCursor.length;
-                    
-                    console.log('handleInput: Making change:', {
-                        lineStart,
-                        bulletStart,
-                        bulletEnd,
-                        replacing: `"${lineText.substring(indent.length, pos)}"`,
-                        with: `"${bullet} "`
-                    });
-                    
-                    // Create a combined transaction that includes both the bullet conversion 
-                    // and the space insertion, so it appears as one undoable action
-                    view.dispatch({
-                        changes: [
-                            {
-                                from: bulletStart,
-                                to: bulletEnd,
-                                insert: bullet
-                            },
-                            {
-                                from: bulletEnd,
-                                to: bulletEnd,
-                                insert: ' '
-                            }
-                        ],
-                        selection: { anchor: bulletStart + 2 }, // Position after the bullet and space
-                        userEvent: "input.type"
-                    });
-                    
-                    console.log('handleInput: Combined change dispatched as single undoable action');
-                    return true; // Prevent the space from being inserted again
-                } else {
-                    console.log('handleInput: No match for list pattern');
-                }
-            } else {
-                console.log('handleInput: Position too early for list pattern');
-            }
+/**
+ * Select the list item at the cursor with its subtree; when that is already
+ * selected, the parent item with its subtree. Returns false when there is no
+ * larger item (or no list), leaving the key to select all.
+ */
+function selectListSubtree(view: EditorView): boolean {
+    const { state } = view;
+    const selection = state.selection.main;
+    const lines = state.doc.toString().split('\n');
+    let item = getListItemRange(lines, state.doc.lineAt(selection.from).number - 1);
+    while (item) {
+        const from = state.doc.line(item.start + 1).from;
+        const to = state.doc.line(item.end).to;
+        if (selection.from > from || selection.to < to) {
+            view.dispatch({ selection: { anchor: from, head: to }, scrollIntoView: true, userEvent: 'select' });
+            return true;
         }
-        
-        // Check for checkbox patterns: `- [ ` or `- [x`
-        if (text === ' ' || text === '[') {
-            const doc = view.state.doc;
-            const line = doc.lineAt(from);
-            const lineText = line.text;
-            const pos = from - line.from;
-            
-            // Check for `- [ ` pattern
-            if (text === ' ' && pos >= 3) {
-                const beforeCursor = lineText.substring(0, pos);
-                const checkboxMatch = beforeCursor.match(/^(\s*)- \[$/);
-                
-                if (checkboxMatch) {
-                    const indent = checkboxMatch[1];
-                    console.log('handleInput: Converting to unchecked checkbox:', { indent });
-                    
-                    const lineStart = line.from;
-                    const bulletStart = lineStart + indent.length;
-                    const bulletEnd = lineStart + beforeCursor.length;
-                    
-                    view.dispatch({
-                        changes: [
-                            {
-                                from: bulletStart,
-                                to: bulletEnd,
-                                insert: '- [ ]'
-                            },
-                            {
-                                from: bulletEnd,
-                                to: bulletEnd,
-                                insert: ' '
-                            }
-                        ],
-                        selection: { anchor: bulletStart + 6 }, // Position after "- [ ] "
-                        userEvent: "input.type"
-                    });
-                    
-                    return true;
-                }
-            }
+        item = getParentListItem(lines, item);
+    }
+    return false;
+}
+
+const OUTLINE_USER_EVENTS: Record<Exclude<OutlineOperation, 'selectSubtree'>, string> = {
+    outdent: 'delete.dedent',
+    moveUp: 'move.line',
+    moveDown: 'move.line',
+    duplicate: 'input.copyline',
+    delete: 'delete.line'
+};
+
+/**
+ * Apply an outliner operation to the list item at the cursor in a single
+ * transaction (one undo step). The cursor stays on its line and folded items
+ * that move stay folded. Returns false outside of lists.
+ */
+function applyOutlineCommand(view: EditorView, operation: OutlineOperation): boolean {
+    if (operation === 'selectSubtree') return selectListSubtree(view);
+    
+    const { state } = view;
+    const doc = state.doc;
+    const lines = doc.toString().split('\n');
+    const selection = state.selection.main;
+    const cursorLine = doc.lineAt(selection.head);
+    const edit = applyOutlineOperation(lines, cursorLine.number - 1, operation);
+    // Keep the key inside a list even when there is nothing to do, so that it
+    // does not fall back to the line-based default
+    if (!edit) return getListItemRange(lines, cursorLine.number - 1) !== null;
+    
+    // Replace whole lines; at the end of the document the preceding line break goes instead
+    const { from, to } = edit;
+    let change: { from: number, to: number, insert: string };
+    if (to < doc.lines) {
+        change = { from: doc.line(from + 1).from, to: doc.line(to + 1).from, insert: edit.lines.map(line => line + '\n').join('') };
+    } else if (from > 0) {
+        change = { from: doc.line(from).to, to: doc.length, insert: edit.lines.map(line => '\n' + line).join('') };
+    } else {
+        change = { from: 0, to: doc.length, insert: edit.lines.join('\n') };
+    }
+    
+    // Start of every new line
+    const base = from < doc.lines ? doc.line(from + 1).from : doc.length + 1;
+    const lineStarts: number[] = [];
+    let pos = base;
+    for (const line of edit.lines) {
+        lineStarts.push(pos);
+        pos += line.length + 1;
+    }
+    
+    // The cursor keeps its distance to the end of its line (the copy for a duplicate)
+    const newIndex = edit.sources.lastIndexOf(cursorLine.number - 1);
+    const changes = state.changes(change);
+    const cursor = newIndex === -1
+        ? changes.mapPos(selection.head, -1)
+        : Math.max(lineStarts[newIndex], lineStarts[newIndex] + edit.lines[newIndex].length - (cursorLine.to - selection.head));
+    
+    // Folds of replaced lines are dropped by the mapping, so fold the moved lines again
+    const effects = state.field(listFoldState)
+        .map(fold => doc.lineAt(fold).number - 1)
+        .filter(index => index >= from && index < to)
+        .flatMap(index => edit.sources.flatMap((source, i) => source === index ? [toggleListFoldEffect.of({ pos: lineStarts[i], isCollapsed: true })] : []));
+    
+    view.dispatch({
+        changes,
+        selection: { anchor: cursor },
+        effects,
+        scrollIntoView: true,
+        userEvent: OUTLINE_USER_EVENTS[operation]
+    });
+    return true;
+}
+
+/**
+ * Changes that renumber the lists (see getListLines) containing the lines a
+ * transaction changed. Code inside them is skipped.
+ */
+function renumberChangedLists(tr: Transaction): Array<{ from: number, to: number, insert: string }> {
+    const doc = tr.newDoc;
+    const lists: Array<{ first: number, last: number }> = [];
+    tr.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+        const { first, last } = getListLines(doc, fromB, toB);
+        // Changes in the same list renumber it once
+        const previous = lists[lists.length - 1];
+        if (previous && first <= previous.last) {
+            previous.last = Math.max(previous.last, last);
+        } else {
+            lists.push({ first, last });
+        }
+    });
+    
+    const changes: Array<{ from: number, to: number, insert: string }> = [];
+    for (const { first, last } of lists) {
+        const from = doc.line(first).from;
+        const to = doc.line(last).to;
+        const lines = doc.sliceString(from, to).split('\n');
+        for (const change of renumberOrderedLists(lines, getCodeLineIndexes(tr.state, from, to))) {
+            changes.push({ from: from + change.from, to: from + change.to, insert: change.insert });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Typing in lists: list markers, ordered list numbers kept in sequence and
+ * the outliner keys
+ */
+export function createListInputHandler() {
+    function handleInput(view: EditorView, from: number, to: number, text: string): boolean {
+        
+        // Check if space was just typed
+        if (text === ' ') {
+            const doc = view.state.doc;
+            const line = doc.lineAt(from);
+            const lineText = line.text;
+            const pos = from - line.from;
             
-            // Check for `- [x ` pattern 
-            if (text === ' ' && pos >= 4) {
+            // Check if we're after - or * at the beginning of a line
+            if (pos >= 1) {
                 const beforeCursor = lineText.substring(0, pos);
-                const checkboxMatch = beforeCursor.match(/^(\s*)- \[x$/);
                 
-                if (checkboxMatch) {
-                    const indent = checkboxMatch[1];
-                    console.log('handleInput: Converting to checked checkbox:', { indent });
+                const listMatch = beforeCursor.match(/^(\s*)([-*])$/);
+                
+                if (listMatch) {
+                    const indent = listMatch[1];
+                    const bullet = listMatch[2];
                     
+                    // Replace the bullet with bullet + space to create the list pattern
                     const lineStart = line.from;
                     const bulletStart = lineStart + indent.length;
                     const bulletEnd = lineStart + beforeCursor.length;
                     
+                    // Create a combined transaction that includes both the bullet conversion 
+                    // and the space insertion, so it appears as one undoable action
                     view.dispatch({
                         changes: [
                             {
                                 from: bulletStart,
                                 to: bulletEnd,
-                                insert: '- [x]'
+                                insert: bullet
                             },
                             {
                                 from: bulletEnd,
@@ -1620,15 +2583,49 @@ function createListInputHandler() {
                                 insert: ' '
                             }
                         ],
-                        selection: { anchor: bulletStart + 6 }, // Position after "- [x] "
+                        selection: { anchor: bulletStart + 2 }, // Position after the bullet and space
                         userEvent: "input.type"
                     });
                     
-                    return true;
+                    return true; // Prevent the space from being inserted again
                 }
             }
-        } else {
-            console.log('handleInput: Not a space character');
+        }
+        
+        // Check for checkbox patterns: `- [ ` or `- [x`, `- [/`, `- [-`, `- [>`, `- [?`
+        if (text === ' ') {
+            const doc = view.state.doc;
+            const line = doc.lineAt(from);
+            const beforeCursor = line.text.substring(0, from - line.from);
+            const checkboxMatch = beforeCursor.match(/^(\s*)- \[([xX/>?-]?)$/);
+            
+            if (checkboxMatch) {
+                const indent = checkboxMatch[1];
+                const symbol = checkboxMatch[2] || ' ';
+                
+                const lineStart = line.from;
+                const bulletStart = lineStart + indent.length;
+                const bulletEnd = lineStart + beforeCursor.length;
+                
+                view.dispatch({
+                    changes: [
+                        {
+                            from: bulletStart,
+                            to: bulletEnd,
+                            insert: `- [${symbol}]`
+                        },
+                        {
+                            from: bulletEnd,
+                            to: bulletEnd,
+                            insert: ' '
+                        }
+                    ],
+                    selection: { anchor: bulletStart + 6 }, // Position after "- [ ] "
+                    userEvent: "input.type"
+                });
+                
+                return true;
+            }
         }
         
         return false; // Allow default behavior
@@ -1646,8 +2643,6 @@ function createListInputHandler() {
         const lineText = line.text;
         const pos = from - line.from;
         
-        console.log('handleBackspace: Backspace at position:', pos, 'in line:', `"${lineText}"`);
-        
         // Check if we're at the beginning of a line that could have a list widget
         if (pos === 0 && lineText.length > 0) {
             // Check if this line would be displayed with a list widget
@@ -1657,24 +2652,12 @@ function createListInputHandler() {
                 const indent = listMatch[1];
                 const content = listMatch[2];
                 
-                console.log('handleBackspace: Line analysis:', {
-                    indent: `"${indent}"`,
-                    content: `"${content}"`,
-                    hasContent: content.trim().length > 0
-                });
-                
                 // Check if this looks like a line that would have a list widget
                 // by seeing if it matches our list detection pattern when reconstructed
                 const reconstructed = indent + '- ' + content;
                 const testMatch = reconstructed.match(/^(\s*)([-*])(\s+)/);
                 
-                console.log('handleBackspace: Testing reconstruction:', {
-                    reconstructed: `"${reconstructed}"`,
-                    testMatch: !!testMatch
-                });
-                
                 if (testMatch && content.trim().length > 0) {
-                    console.log('handleBackspace: MATCHED! Converting back to regular list with indent:', `"${indent}"`);
                     
                     view.dispatch({
                         changes: {
@@ -1687,8 +2670,6 @@ function createListInputHandler() {
                     });
                     
                     return true; // Prevent default backspace
-                } else {
-                    console.log('handleBackspace: No match for list reconstruction');
                 }
                 
                 // Check for checkbox pattern reconstruction
@@ -1704,7 +2685,6 @@ function createListInputHandler() {
                     const testUncheckedMatch = reconstructedUnchecked.match(/^(\s*)- (\[ \]) (.*)$/);
                     
                     if ((testCheckedMatch || testUncheckedMatch) && content.trim().length > 0) {
-                        console.log('handleBackspace: MATCHED! Converting back to checkbox markdown with indent:', `"${indent}"`);
                         
                         view.dispatch({
                             changes: {
@@ -1717,15 +2697,9 @@ function createListInputHandler() {
                         });
                         
                         return true; // Prevent default backspace
-                    } else {
-                        console.log('handleBackspace: No match for checkbox reconstruction');
                     }
                 }
-            } else {
-                console.log('handleBackspace: No line match');
             }
-        } else {
-            console.log('handleBackspace: Not at beginning of line or empty line');
         }
         
         return false; // Allow default behavior
@@ -1743,24 +2717,14 @@ function createListInputHandler() {
         const lineText = line.text;
         const pos = from - line.from;
         
-        console.log('handleEnter: Enter pressed at position:', pos, 'in line:', `"${lineText}"`);
-        
         // Check if we're on a line that has list content
         const listMatch = lineText.match(/^(\s*)(.*)$/);
         if (listMatch) {
             const indent = listMatch[1];
             const content = listMatch[2].trim();
             
-            console.log('handleEnter: Line analysis:', {
-                indent: `"${indent}"`,
-                content: `"${content}"`,
-                hasContent: content.length > 0,
-                posAfterIndent: pos >= indent.length
-            });
-            
             // If we're on a list line (has content) and not at the very beginning
             if (content.length > 0 && pos >= indent.length) {
-                console.log('handleEnter: Creating new list item with indent:', `"${indent}"`);
                 
                 view.dispatch({
                     changes: {
@@ -1773,11 +2737,7 @@ function createListInputHandler() {
                 });
                 
                 return true; // Prevent default enter behavior
-            } else {
-                console.log('handleEnter: Not creating list item - no content or at beginning');
             }
-        } else {
-            console.log('handleEnter: No line match');
         }
         
         return false; // Allow default behavior
@@ -1795,8 +2755,6 @@ function createListInputHandler() {
         const lineText = line.text;
         const pos = from - line.from;
         
-        console.log('handleTab: Tab pressed at position:', pos, 'in line:', `"${lineText}"`);
-        
         // Check if we're at the beginning of a line or within the indent area
         const lineStart = line.from;
         const indentMatch = lineText.match(/^(\s*)/);
@@ -1805,20 +2763,11 @@ function createListInputHandler() {
             const currentIndent = indentMatch[1];
             const indentEnd = currentIndent.length;
             
-            console.log('handleTab: Current indent analysis:', {
-                currentIndent: `"${currentIndent}"`,
-                indentEnd,
-                cursorPos: pos,
-                atBeginningOrIndent: pos <= indentEnd
-            });
-            
             // If we're at the beginning of the line or within the indent area
             if (pos <= indentEnd) {
                 // Add 4 spaces for deeper indentation
                 const newIndent = '    ';
                 
-                console.log('handleTab: Adding deeper indentation:', `"${newIndent}"`);
-                
                 view.dispatch({
                     changes: {
                         from: lineStart,
@@ -1830,16 +2779,142 @@ function createListInputHandler() {
                 });
                 
                 return true; // Prevent default tab behavior
-            } else {
-                console.log('handleTab: Not at beginning/indent area, allowing default behavior');
             }
         }
         
         return false; // Allow default behavior
     }
 
+    function handleOrderedEnter(view: EditorView): boolean {
+        const { state } = view;
+        const { from, to } = state.selection.main;
+        if (from !== to) return false;
+        
+        const line = state.doc.lineAt(from);
+        const match = line.text.match(ORDERED_ITEM_REGEX);
+        if (!match || from - line.from < match[0].length) return false;
+        
+        if (line.text.substring(match[0].length).trim() === '') {
+            // Enter on an empty item ends the list
+            view.dispatch({
+                changes: { from: line.from, to: line.to, insert: '' },
+                selection: { anchor: line.from },
+                userEvent: "input"
+            });
+            return true;
+        }
+        
+        // Continue the list with the next number (following items are renumbered)
+        const marker = `${match[1]}${parseInt(match[2], 10) + 1}${match[3]} `;
+        view.dispatch({
+            changes: { from, to, insert: '\n' + marker },
+            selection: { anchor: from + 1 + marker.length },
+            userEvent: "input.type"
+        });
+        return true;
+    }
+    
+    function changeOrderedLevel(view: EditorView, outdent: boolean): boolean {
+        const { state } = view;
+        const { from, to } = state.selection.main;
+        if (from !== to) return false;
+        
+        const line = state.doc.lineAt(from);
+        const match = line.text.match(ORDERED_ITEM_REGEX);
+        if (!match) return false;
+        
+        const indent = match[1];
+        if (outdent && !indent) return false;
+        const newIndent = outdent ? indent.replace(/( {1,4}|\t)$/, '') : indent + LIST_INDENT;
+        
+        // Continue the numbering of the new level, or start it at 1
+        const lines = state.doc.toString().split('\n');
+        const number = getNumberForLevel(lines, line.number - 1, getIndentWidth(newIndent));
+        const marker = `${newIndent}${number}${match[3]}${match[4]}`;
+        const cursor = Math.max(line.from + marker.length, from + marker.length - match[0].length);
+        
+        view.dispatch({
+            changes: { from: line.from, to: line.from + match[0].length, insert: marker },
+            selection: { anchor: cursor },
+            userEvent: outdent ? "delete.dedent" : "input.indent"
+        });
+        return true;
+    }
+    
+    function handleOrderedBackspace(view: EditorView): boolean {
+        const { state } = view;
+        const { from, to } = state.selection.main;
+        if (from !== to) return false;
+        
+        // Only right after the number, where the widget ends
+        const line = state.doc.lineAt(from);
+        const match = line.text.match(ORDERED_ITEM_REGEX);
+        if (!match || from - line.from !== match[0].length) return false;
+        
+        if (match[1]) {
+            return changeOrderedLevel(view, true);
+        }
+        
+        // A top-level item turns back into a plain line
+        view.dispatch({
+            changes: { from: line.from, to: from, insert: '' },
+            selection: { anchor: line.from },
+            userEvent: "delete.backward"
+        });
+        return true;
+    }
+    
+    // Keep ordered list numbers consistent in the same transaction (one undo step).
+    // Content applied from the file is left as it is.
+    const renumberFilter = EditorState.transactionFilter.of(tr => {
+        if (!tr.docChanged || tr.annotation(Transaction.remote)) return tr;
+        const changes = renumberChangedLists(tr);
+        if (changes.length === 0) return tr;
+        return [tr, { changes, sequential: true }];
+    });
+
     return [
         EditorView.inputHandler.of(handleInput),
+        renumberFilter,
+        // Ordered list and outliner keys must run before the default keymap
+        Prec.high(keymap.of([
+            {
+                key: "Shift-Tab",
+                run: (view) => applyOutlineCommand(view, 'outdent')
+            },
+            {
+                key: "Alt-ArrowUp",
+                run: (view) => applyOutlineCommand(view, 'moveUp')
+            },
+            {
+                key: "Alt-ArrowDown",
+                run: (view) => applyOutlineCommand(view, 'moveDown')
+            },
+            {
+                key: "Mod-a",
+                run: (view) => applyOutlineCommand(view, 'selectSubtree')
+            },
+            {
+                key: "Mod-Shift-d",
+                run: (view) => applyOutlineCommand(view, 'duplicate')
+            },
+            {
+                key: "Mod-Shift-k",
+                run: (view) => applyOutlineCommand(view, 'delete')
+            },
+            {
+                key: "Enter",
+                run: handleOrderedEnter
+            },
+            {
+                key: "Tab",
+                run: (view) => changeOrderedLevel(view, false)
+            },
+            {
+                key: "Backspace",
+                run: handleOrderedBackspace
+            }
+        ])),
         keymap.of([
             {
                 key: "Backspace",
@@ -1857,13 +2932,151 @@ function createListInputHandler() {
     ];
 }
 
-export class SurveyNoteView extends ItemView {
+/**
+ * Table containing the main cursor, with its text and the cell under the cursor
+ */
+function getTableAtCursor(state: EditorState) {
+    const head = state.selection.main.head;
+    const tables: Array<{ from: number, to: number }> = [];
+    getSyntaxTree(state).iterate({
+        from: head,
+        to: head,
+        enter: node => {
+            if (node.name !== 'Table') return;
+            tables.push({ from: node.from, to: node.to });
+            return false;
+        }
+    });
+    const table = tables[0];
+    if (!table) return null;
+
+    const source = state.sliceDoc(table.from, table.to);
+    const model = parseTable(source);
+    const cell = getCellAt(source, head - table.from);
+    return { table, model, row: cell.row, column: Math.min(cell.column, model.header.length - 1) };
+}
+
+/**
+ * Apply a table operation at the cursor and rewrite the table with padded
+ * columns in a single transaction (one undo step). Returns false outside of
+ * a table and when the operation does not apply at the cursor.
+ */
+function applyTableEdit(view: EditorView, operation: TableOperation): boolean {
+    const current = getTableAtCursor(view.state);
+    if (!current) return false;
+
+    const result = applyTableOperation(current.model, operation, current.row, current.column);
+    if (!result) return false;
+    const formatted = formatTable(result.model);
+    const cell = getCellRange(formatted, result.row, result.column);
+    view.dispatch({
+        changes: { from: current.table.from, to: current.table.to, insert: formatted },
+        selection: { anchor: current.table.from + cell.from, head: current.table.from + cell.to },
+        scrollIntoView: true,
+        userEvent: 'input.table'
+    });
+    return true;
+}
+
+function createTableExtension() {
+    // Tab / Shift-Tab: pad the table and select the next / previous cell.
+    // Tab on the last cell adds a new row.
+    function moveCell(view: EditorView, backward: boolean): boolean {
+        const current = getTableAtCursor(view.state);
+        if (!current) return false;
+
+        const { model } = current;
+        const columns = model.header.length;
+        let row = current.row;
+        let column = current.column + (backward ? -1 : 1);
+        if (column >= columns) {
+            column = 0;
+            row++;
+        } else if (column < 0) {
+            if (row === 0) {
+                column = 0;
+            } else {
+                column = columns - 1;
+                row--;
+            }
+        }
+        if (row > model.rows.length) {
+            model.rows.push(new Array<string>(columns).fill(''));
+        }
+
+        const formatted = formatTable(model);
+        const cell = getCellRange(formatted, row, column);
+        const from = current.table.from;
+        view.dispatch({
+            changes: { from, to: current.table.to, insert: formatted },
+            selection: { anchor: from + cell.from, head: from + cell.to },
+            scrollIntoView: true,
+            userEvent: 'input.table'
+        });
+        return true;
+    }
+
+    return [
+        // Table keys must run before list indentation and the default keymap
+        Prec.high(keymap.of([
+            {
+                key: "Tab",
+                run: (view) => moveCell(view, false),
+                shift: (view) => moveCell(view, true)
+            }
+        ]))
+    ];
+}
+
+/**
+ * Section schema of a survey note: its template's sections, or the default schema
+ */
+export function getNoteSections(plugin: SurveyNotePlugin, file: TFile): SectionConfig[] {
+    const frontmatter = plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+    const template = findTemplate(plugin.settings.templates, frontmatter?.[TEMPLATE_FRONTMATTER_KEY]);
+    return getOrderedSections(template ? template.sections : plugin.settings.sections);
+}
+
+/**
+ * Markdown shown for an embed of a note: the note without its frontmatter, or
+ * the part a subpath points to (null if it is not found). In a survey note a
+ * heading that names a section embeds the content of that section.
+ */
+async function getEmbedMarkdown(plugin: SurveyNotePlugin, file: TFile, subpath: string): Promise<string | null> {
+    const content = await plugin.app.vault.cachedRead(file);
+    const headings = subpath.split('#').filter(part => part !== '');
+    const heading = subpath.startsWith('#^') ? undefined : headings[headings.length - 1];
+    if (heading && plugin.app.metadataCache.getFileCache(file)?.frontmatter?.['survey-note-view']) {
+        const sections = getNoteSections(plugin, file);
+        const section = sections.find(section => stripHeading(section.name) === stripHeading(heading));
+        if (section) {
+            return getSectionContents(parseNote(content, sections.map(section => section.name)))[section.name] ?? '';
+        }
+    }
+
+    const body = content.substring(getBodyStart(content));
+    return subpath ? extractSubpath(body, subpath) : body;
+}
+
+export class SurveyNoteView extends ItemView implements HoverParent {
     plugin: SurveyNotePlugin;
     file: TFile;
     private editorData: Record<string, string> = {};
+    // Section contents as last read from or written to the file
+    private baseData: Record<string, string> = {};
+    // File content as last read or written by this view
+    private lastKnownContent = "";
+    // Sections changed both here and on disk, waiting for the user to resolve
+    private conflicts: Record<string, { base: string, remote: string }> = {};
+    private gridItems: Record<string, HTMLElement> = {};
     private editors: Record<string, EditorView> = {};
+    // Section editor that last had focus (target of editor commands)
+    private activeEditor: EditorView | null = null;
     private saveTimeout: NodeJS.Timeout | null = null;
+    private foldSaveTimeout: NodeJS.Timeout | null = null;
     private isUpdating: boolean = false;
+    private renderedTemplateId: string | undefined;
+    hoverPopover: HoverPopover | null = null;
 
     constructor(leaf: WorkspaceLeaf, plugin: SurveyNotePlugin) {
         super(leaf);
@@ -1890,15 +3103,46 @@ export class SurveyNoteView extends ItemView {
             this.setMarkdownView();
         });
         this.addAction("plus", "新規SurveyNote作成", () => {
-            this.createNewSurveyNote();
+            new TemplateSuggestModal(this.app, this.plugin.settings.templates, (template) => {
+                this.createNewSurveyNote(template);
+            }).open();
         });
         this.applyStyles();
+
+        // Rebuild the grid when the template property changes (e.g. metadata of a
+        // newly created note becomes available after the first render)
+        this.registerEvent(this.app.metadataCache.on('changed', (file) => {
+            if (file === this.file && this.getTemplateId() !== this.renderedTemplateId) {
+                this.reload();
+            }
+        }));
+
+        // Pick up changes made by other panes, sync tools or plugins
+        this.registerEvent(this.app.vault.on('modify', async (file) => {
+            if (file === this.file) {
+                // An open Markdown view may already be ahead of what it saved, so
+                // its buffer is used instead of the file
+                const markdownViews = this.getMarkdownViews();
+                const content = markdownViews.length > 0
+                    ? markdownViews[0].editor.getValue()
+                    : await this.app.vault.read(this.file);
+                this.applyExternalContent(content);
+            }
+        }));
+
+        // Follow typing in a Markdown view of the same file without waiting for it to save
+        this.registerEvent(this.app.workspace.on('editor-change', (editor, info) => {
+            if (info.file === this.file) {
+                this.applyExternalContent(editor.getValue());
+            }
+        }));
     }
 
     async onClose() {
         if (this.saveTimeout) {
             clearTimeout(this.saveTimeout);
         }
+        this.flushFoldStates();
         for (const key in this.editors) {
             this.editors[key].destroy();
         }
@@ -1926,32 +3170,25 @@ export class SurveyNoteView extends ItemView {
     }
 
     private async parseMarkdownContent(content: string): Promise<Record<string, string>> {
-        const lines = content.split("\n");
-        const sections: Record<string, string> = {};
-        let currentSection = "";
-
-        const sectionOrder = Object.values(SECTIONS).sort((a, b) => b.length - a.length);
+        const note = parseNote(content, this.getSections().map(section => section.name));
+        return getSectionContents(note);
+    }
 
-        for (const line of lines) {
-            let isHeading = false;
-            for (const sectionTitle of sectionOrder) {
-                if (line.trim().startsWith(`# ${sectionTitle}`)) {
-                    currentSection = sectionTitle;
-                    sections[currentSection] = "";
-                    isHeading = true;
-                    break;
-                }
-            }
-            if (!isHeading && currentSection) {
-                sections[currentSection] += line + "\n";
-            }
-        }
-        
-        for(const key in sections) {
-            sections[key] = sections[key].trim();
-        }
+    /**
+     * Section schema used to parse, save and render this note.
+     * Notes created from a template use that template's sections.
+     */
+    private getSections(): SectionConfig[] {
+        return this.file ? getNoteSections(this.plugin, this.file) : getOrderedSections(this.plugin.settings.sections);
+    }
 
-        return sections;
+    /**
+     * Template id recorded in the note's frontmatter, if any
+     */
+    private getTemplateId(): string | undefined {
+        if (!this.file) return undefined;
+        const frontmatter = this.app.metadataCache.getFileCache(this.file)?.frontmatter;
+        return frontmatter?.[TEMPLATE_FRONTMATTER_KEY];
     }
 
     getState() {
@@ -1963,72 +3200,326 @@ export class SurveyNoteView extends ItemView {
     async setState(state: any, result: ViewStateResult): Promise<void> {
         const file = this.app.vault.getAbstractFileByPath(state.file);
         if (file instanceof TFile) {
+            this.flushFoldStates();
             this.file = file;
             await this.renderView();
         }
-        return super.setState(state, result);
+        return super.setState(state, result);
+    }
+
+    async setMarkdownView() {
+        // Use the plugin's setMarkdownView method to properly handle manual view switch
+        await this.plugin.setMarkdownView(this.leaf);
+    }
+
+    async parseMarkdown() {
+        if (!this.file) return;
+        const content = await this.app.vault.read(this.file);
+        this.editorData = await this.parseMarkdownContent(content);
+        this.baseData = { ...this.editorData };
+        this.lastKnownContent = content;
+        this.conflicts = {};
+    }
+
+    async saveMarkdown() {
+        if (!this.file || this.isUpdating) return;
+        this.isUpdating = true;
+
+        try {
+            const sectionOrder = this.getSections().map(section => section.name);
+
+            // Only sections edited in this view are written back; everything
+            // else in the file (frontmatter, preamble, unknown text) is kept as is
+            // A Markdown view of the same file holds the latest content; edits go
+            // through its editor and it saves the file itself
+            const markdownViews = this.getMarkdownViews();
+            const originalContent = markdownViews.length > 0
+                ? markdownViews[0].editor.getValue()
+                : await this.app.vault.read(this.file);
+
+            // Merge changes made outside this view since the last read before writing
+            this.applyExternalContent(originalContent);
+
+            const changes: Record<string, string> = {};
+            for (const sectionTitle of sectionOrder) {
+                const sectionContent = this.editorData[sectionTitle];
+                if (this.conflicts[sectionTitle]) continue;
+                if (sectionContent !== undefined && sectionContent !== (this.baseData[sectionTitle] ?? '')) {
+                    changes[sectionTitle] = sectionContent;
+                }
+            }
+
+            const finalContent = updateSections(parseNote(originalContent, sectionOrder), changes, sectionOrder);
+
+            if (originalContent !== finalContent) {
+                this.lastKnownContent = finalContent;
+                if (markdownViews.length > 0) {
+                    markdownViews.forEach(view => this.applyToMarkdownView(view, finalContent));
+                } else {
+                    await this.app.vault.modify(this.file, finalContent);
+                }
+            }
+            this.baseData = { ...this.baseData, ...changes };
+        } finally {
+            this.isUpdating = false;
+        }
+    }
+
+    /**
+     * Apply file content changed outside this view.
+     * Sections not edited here are reloaded, sections edited on both sides are
+     * merged line by line, and overlapping edits are shown as a conflict.
+     */
+    private applyExternalContent(content: string) {
+        if (content === this.lastKnownContent) return;
+        this.lastKnownContent = content;
+
+        const note = parseNote(content, this.getSections().map(section => section.name));
+        const remoteData = getSectionContents(note);
+        let needsSave = false;
+
+        for (const section of this.getSections()) {
+            const name = section.name;
+            const remote = remoteData[name] ?? '';
+            const conflict = this.conflicts[name];
+
+            if (conflict) {
+                // Keep the conflict open, but compare against the latest file content
+                conflict.remote = remote;
+                this.showConflict(name);
+                continue;
+            }
+
+            const base = this.baseData[name] ?? '';
+            const local = this.editorData[name] ?? '';
+            if (remote === base) continue;
+
+            if (local === base || local === remote) {
+                this.baseData[name] = remote;
+                this.setSectionContent(name, remote);
+                continue;
+            }
+
+            const merged = mergeText(base, local, remote);
+            if (merged.conflict) {
+                this.conflicts[name] = { base, remote };
+                this.showConflict(name);
+            } else {
+                this.baseData[name] = remote;
+                this.setSectionContent(name, merged.text);
+                needsSave = true;
+            }
+        }
+
+        if (needsSave) {
+            this.debouncedSave();
+        }
+    }
+
+    /**
+     * Replace the content of a section editor without touching the undo history.
+     * Only the changed range is replaced, so the cursor stays where it was.
+     */
+    private setSectionContent(name: string, text: string) {
+        this.editorData[name] = text;
+        const editor = this.editors[name];
+        if (!editor) return;
+
+        const current = editor.state.doc.toString();
+        if (current === text) return;
+
+        editor.dispatch({
+            changes: getMinimalChange(current, text),
+            annotations: [Transaction.remote.of(true), Transaction.addToHistory.of(false)]
+        });
+    }
+
+    /**
+     * Show the conflict bar for a section changed both here and on disk
+     */
+    private showConflict(name: string) {
+        const itemEl = this.gridItems[name];
+        const conflict = this.conflicts[name];
+        if (!itemEl || !conflict) return;
+
+        itemEl.querySelector('.surveynote-conflict-bar')?.remove();
+        itemEl.addClass('has-conflict');
+        const barEl = createDiv({ cls: 'surveynote-conflict-bar' });
+        itemEl.prepend(barEl);
+        barEl.createSpan({ text: 'ファイルが外部で変更され、編集内容と競合しています', cls: 'surveynote-conflict-message' });
+
+        const resolve = (text: string) => {
+            barEl.remove();
+            itemEl.removeClass('has-conflict');
+            delete this.conflicts[name];
+            this.baseData[name] = conflict.remote;
+            this.setSectionContent(name, text);
+            this.debouncedSave();
+        };
+
+        const keepButton = barEl.createEl('button', { text: '編集内容を残す' });
+        keepButton.addEventListener('click', () => resolve(this.editorData[name] ?? ''));
+
+        const theirsButton = barEl.createEl('button', { text: 'ファイルの内容を使う' });
+        theirsButton.addEventListener('click', () => resolve(conflict.remote));
+
+        const mergeButton = barEl.createEl('button', { text: 'マージして編集', cls: 'mod-cta' });
+        mergeButton.addEventListener('click', () => {
+            resolve(mergeText(conflict.base, this.editorData[name] ?? '', conflict.remote).text);
+        });
+    }
+
+    /**
+     * Save pending edits and rebuild the view from the file
+     */
+    async reload() {
+        if (this.saveTimeout) {
+            clearTimeout(this.saveTimeout);
+            this.saveTimeout = null;
+            await this.saveMarkdown();
+        }
+        this.flushFoldStates();
+        for (const key in this.editors) {
+            this.editors[key].destroy();
+        }
+        this.editors = {};
+        await this.renderView();
     }
 
-    async setMarkdownView() {
-        // Use the plugin's setMarkdownView method to properly handle manual view switch
-        await this.plugin.setMarkdownView(this.leaf);
+    /**
+     * Code block rendered by a widget element
+     */
+    private getCodeBlockAt(editor: EditorView, widgetEl: HTMLElement): CodeBlock | undefined {
+        const pos = editor.posAtDOM(widgetEl);
+        return findCodeBlocks(editor.state).find(block => block.from === pos);
     }
 
-    async parseMarkdown() {
-        if (!this.file) return;
-        const content = await this.app.vault.read(this.file);
-        this.editorData = await this.parseMarkdownContent(content);
+    /**
+     * Persist the toggled collapse states of the code blocks and the folded
+     * list items that still exist in this note (states of removed ones are dropped)
+     */
+    private saveFoldStates() {
+        if (this.foldSaveTimeout) clearTimeout(this.foldSaveTimeout);
+        this.foldSaveTimeout = setTimeout(() => {
+            this.foldSaveTimeout = null;
+            if (this.file) {
+                this.plugin.saveFoldStates(this.file.path, this.collectCodeBlockStates(), this.collectListFoldStates());
+            }
+        }, SAVE_DELAY);
     }
 
-    async saveMarkdown() {
-        if (!this.file || this.isUpdating) return;
-        this.isUpdating = true;
-
-        try {
-            let newSectionContent = "";
-            const sectionOrder = [
-                SECTIONS.BACKGROUND, SECTIONS.SUMMARY,
-                SECTIONS.CONTENT1, SECTIONS.CONTENT2,
-                SECTIONS.CONTENT3
-            ];
+    /**
+     * Write pending fold states now (before the editors are destroyed)
+     */
+    private flushFoldStates() {
+        if (!this.foldSaveTimeout) return;
+        clearTimeout(this.foldSaveTimeout);
+        this.foldSaveTimeout = null;
+        if (this.file) {
+            this.plugin.saveFoldStates(this.file.path, this.collectCodeBlockStates(), this.collectListFoldStates());
+        }
+    }
 
-            for (const sectionTitle of sectionOrder) {
-                const sectionContent = this.editorData[sectionTitle];
-                if (sectionContent !== undefined && sectionContent.trim() !== '') {
-                    newSectionContent += `# ${sectionTitle}\n${sectionContent.trim()}\n\n`;
-                }
+    private collectCodeBlockStates(): Record<string, boolean> {
+        const states: Record<string, boolean> = {};
+        for (const editor of Object.values(this.editors)) {
+            const toggled = editor.state.field(codeBlockCollapseState);
+            for (const block of findCodeBlocks(editor.state)) {
+                const key = getCodeBlockKey(block);
+                const isCollapsed = toggled.get(key);
+                if (isCollapsed !== undefined) states[key] = isCollapsed;
             }
+        }
+        return states;
+    }
 
-            const fileCache = this.app.metadataCache.getFileCache(this.file);
-            const originalContent = await this.app.vault.read(this.file);
-            let finalContent = "";
-
-            if (fileCache?.frontmatter && fileCache.frontmatterPosition) {
-                const frontmatterEndOffset = fileCache.frontmatterPosition.end.offset;
-                const frontmatter = originalContent.substring(0, frontmatterEndOffset);
-                finalContent = `${frontmatter.trim()}\n\n${newSectionContent.trim()}`;
-            } else {
-                finalContent = newSectionContent.trim();
-            }
+    /**
+     * Anchors of the folded list items of every section, by section name
+     */
+    private collectListFoldStates(): Record<string, string[]> {
+        const states: Record<string, string[]> = {};
+        for (const [title, editor] of Object.entries(this.editors)) {
+            const folds = editor.state.field(listFoldState);
+            if (folds.length === 0) continue;
+            const doc = editor.state.doc;
+            const lineIndexes = folds.map(pos => doc.lineAt(pos).number - 1);
+            states[title] = getListFoldAnchors(doc.toString().split('\n'), lineIndexes);
+        }
+        return states;
+    }
 
-            if (originalContent.trim() !== finalContent.trim()) {
-                await this.app.vault.modify(this.file, finalContent);
-            }
-        } finally {
-            this.isUpdating = false;
+    /**
+     * Run an outliner operation in the section editor that last had focus.
+     * Returns false if its cursor is not inside a list.
+     */
+    runOutlineCommand(operation: OutlineOperation, checking: boolean): boolean {
+        const editor = this.activeEditor;
+        if (!editor || !Object.values(this.editors).includes(editor)) return false;
+        if (checking) {
+            const lines = editor.state.doc.toString().split('\n');
+            return getListItemRange(lines, editor.state.doc.lineAt(editor.state.selection.main.head).number - 1) !== null;
         }
+        
+        const applied = applyOutlineCommand(editor, operation);
+        if (applied) editor.focus();
+        return applied;
+    }
+
+    /**
+     * Run a table command in the section editor that last had focus.
+     * Returns false if its cursor is not inside a table.
+     */
+    runTableCommand(operation: TableOperation, checking: boolean): boolean {
+        const editor = this.activeEditor;
+        if (!editor || !Object.values(this.editors).includes(editor)) return false;
+        if (checking) return getTableAtCursor(editor.state) !== null;
+
+        const applied = applyTableEdit(editor, operation);
+        if (applied) editor.focus();
+        return applied;
     }
 
-    private debouncedSave() {
+    private debouncedSave(delay: number = SAVE_DELAY) {
         if (this.saveTimeout) clearTimeout(this.saveTimeout);
         this.saveTimeout = setTimeout(() => {
             this.saveMarkdown();
             this.saveTimeout = null;
-        }, 1000);
+        }, delay);
+    }
+
+    /**
+     * Markdown views showing the same file in other leaves
+     */
+    private getMarkdownViews(): MarkdownView[] {
+        return this.app.workspace.getLeavesOfType('markdown')
+            .map(leaf => leaf.view)
+            .filter((view): view is MarkdownView => view instanceof MarkdownView && view.file === this.file);
+    }
+
+    /**
+     * Write new file content into a Markdown view's editor as a minimal change,
+     * so its cursor and undo history are kept
+     */
+    private applyToMarkdownView(view: MarkdownView, content: string) {
+        const editor = view.editor;
+        const current = editor.getValue();
+        if (current === content) return;
+
+        const change = getMinimalChange(current, content);
+        editor.transaction({
+            changes: [{
+                from: editor.offsetToPos(change.from),
+                to: editor.offsetToPos(change.to),
+                text: change.insert
+            }]
+        }, VIEW_TYPE_SURVEYNOTE);
+        view.requestSave();
     }
 
     async renderView() {
+        this.renderedTemplateId = this.getTemplateId();
         await this.parseMarkdown();
+        this.gridItems = {};
         const container = this.containerEl.children[1];
         container.empty();
         this.applyStyles(); // Apply styles on render
@@ -2068,28 +3559,20 @@ export class SurveyNoteView extends ItemView {
         const frontmatter = fileCache?.frontmatter;
         const layoutType = frontmatter?.['survey-note-view'];
         
-        // Determine layout class
-        let layoutClass = "";
-        if (layoutType === "1") {
-            layoutClass = "layout-1";
-        } else if (layoutType === "2") {
-            layoutClass = "layout-2";
-        }
-        // Default case (note, 3, or undefined) uses no additional class
+        // A numeric layout (1, 2, 3) limits the number of columns in the last row
+        // Default case (note or undefined) shows every section
+        const columnLimit = parseInt(layoutType, 10);
+        const layout = buildGridLayout(this.getSections(), isNaN(columnLimit) ? undefined : columnLimit);
         
-        const gridEl = rootEl.createDiv({ cls: `surveynote-view-grid ${layoutClass}`.trim() });
+        const gridEl = rootEl.createDiv({ cls: "surveynote-view-grid" });
+        gridEl.style.gridTemplateColumns = `repeat(${GRID_COLUMNS}, 1fr)`;
+        gridEl.style.gridTemplateRows = layout.templateRows;
 
-        // Create grid items in the specific order to match CSS grid layout
-        const gridOrder = [
-            { key: "BACKGROUND", title: SECTIONS.BACKGROUND, cls: "background" },
-            { key: "SUMMARY", title: SECTIONS.SUMMARY, cls: "summary" },
-            { key: "CONTENT1", title: SECTIONS.CONTENT1, cls: "content1" },
-            { key: "CONTENT2", title: SECTIONS.CONTENT2, cls: "content2" },
-            { key: "CONTENT3", title: SECTIONS.CONTENT3, cls: "content3" }
-        ];
-
-        gridOrder.forEach(({ title, cls }) => {
-            this.createGridItem(gridEl, title, cls);
+        // Create grid items in schema order; each item is placed by row and span
+        layout.placements.forEach(({ section, row, span }) => {
+            const itemEl = this.createGridItem(gridEl, section.name, `height-${section.height}`);
+            itemEl.style.gridRow = row.toString();
+            itemEl.style.gridColumn = `span ${span}`;
         });
     }
 
@@ -2124,26 +3607,48 @@ export class SurveyNoteView extends ItemView {
         }
     }
 
-    createGridItem(parent: HTMLElement, title: string, cls: string) {
-        console.log('Creating grid item:', title);
+    createGridItem(parent: HTMLElement, title: string, cls: string): HTMLElement {
         const itemEl = parent.createDiv({ cls: `grid-item ${cls}` });
+        itemEl.setAttribute('data-section', title);
+        this.gridItems[title] = itemEl;
         const contentContainer = itemEl.createDiv({ cls: "grid-item-content" });
 
         const updateListener = EditorView.updateListener.of((update) => {
+            if (update.focusChanged && update.view.hasFocus) {
+                this.activeEditor = update.view;
+            }
+            if (update.startState.field(codeBlockCollapseState) !== update.state.field(codeBlockCollapseState) ||
+                changesListFolds(update)) {
+                this.saveFoldStates();
+            }
             if (update.docChanged) {
                 this.editorData[title] = update.state.doc.toString();
-                this.debouncedSave();
+                // Content applied from the file does not need to be saved again
+                if (!update.transactions.some(tr => tr.annotation(Transaction.remote))) {
+                    // Push edits to a Markdown view of the same file almost immediately
+                    this.debouncedSave(this.getMarkdownViews().length > 0 ? LIVE_SYNC_DELAY : SAVE_DELAY);
+                }
             }
         });
 
-        console.log('Creating editor state with internal link support and list input handler');
         const state = EditorState.create({
             doc: this.editorData[title] || "",
             extensions: [
                 history(),
                 keymap.of([...defaultKeymap, ...historyKeymap, indentWithTab]),
-                markdown({ base: markdownLanguage }),
-                ...createInternalLinkExtension(this.plugin),
+                markdown({ base: markdownLanguage, extensions: surveyNoteMarkdown }),
+                ...createInternalLinkExtension(
+                    this.plugin,
+                    this.plugin.codeBlockStates[this.file?.path ?? ''] ?? {},
+                    this.plugin.listFoldStates[this.file?.path ?? '']?.[title] ?? [],
+                    () => this.file?.path ?? ''
+                ),
+                ...createTableExtension(),
+                // `[[` completion for internal links
+                autocompletion({
+                    override: [createLinkCompletionSource(this.app, () => this.file?.path ?? '')],
+                    icons: false
+                }),
                 ...createListInputHandler(),
                 EditorView.lineWrapping,
                 syntaxHighlighting(markdownHighlighting),
@@ -2156,73 +3661,49 @@ export class SurveyNoteView extends ItemView {
 
         // Add code block edit handler using standard addEventListener
         contentContainer.addEventListener('editCodeBlock', (event: Event) => {
-            console.log('Edit code block event received');
             const customEvent = event as CustomEvent;
-            const codeBlockContainer = customEvent.detail.target;
-            
-            // Find the position of this code block in the editor
-            const editorElement = contentContainer.querySelector('.cm-editor');
-            if (editorElement && codeBlockContainer) {
-                // Focus the editor and try to position cursor at the code block
+            const block = this.getCodeBlockAt(editor, customEvent.detail.target);
+            if (block) {
+                // Position cursor after the opening ```
+                const pos = block.from + 3;
                 editor.focus();
-                
-                // We'll search for the code block pattern in the text and position cursor there
-                const text = editor.state.doc.toString();
-                const codeBlockRegex = /```[\w]*\n?[\s\S]*?\n?```/g;
-                let match;
-                let blockIndex = 0;
-                
-                // Find all code blocks and determine which one was clicked
-                const allCodeBlocks = contentContainer.querySelectorAll('.code-block-widget-container');
-                const clickedIndex = Array.from(allCodeBlocks).indexOf(codeBlockContainer);
-                
-                while ((match = codeBlockRegex.exec(text)) !== null && blockIndex <= clickedIndex) {
-                    if (blockIndex === clickedIndex) {
-                        // Position cursor at the start of this code block
-                        const pos = match.index + 3; // Position after the opening ```
-                        editor.dispatch({
-                            selection: { anchor: pos, head: pos },
-                            scrollIntoView: true
-                        });
-                        console.log('Cursor positioned at code block', blockIndex, 'position', pos);
-                        break;
-                    }
-                    blockIndex++;
-                }
+                editor.dispatch({
+                    selection: { anchor: pos, head: pos },
+                    scrollIntoView: true
+                });
             }
         });
 
+        // Move the cursor into a rendered table to edit it
+        contentContainer.addEventListener('editTable', (event: Event) => {
+            const customEvent = event as CustomEvent;
+            const pos = editor.posAtDOM(customEvent.detail.target);
+            editor.focus();
+            // First header cell (after the opening pipe and space)
+            const lineEnd = editor.state.doc.lineAt(pos).to;
+            const anchor = Math.min(pos + 2, lineEnd);
+            editor.dispatch({
+                selection: { anchor, head: anchor },
+                scrollIntoView: true
+            });
+        });
+
         // Add handler for list collapse toggle
         contentContainer.addEventListener('toggleListCollapse', (event: Event) => {
             const customEvent = event as CustomEvent;
-            const { lineNumber, isCollapsed, indent } = customEvent.detail;
-            
-            console.log('Toggle list collapse event:', { lineNumber, isCollapsed, indent });
-            
-            // Toggle the collapse state by manipulating the document
-            this.toggleListCollapse(editor, lineNumber, isCollapsed, indent);
+            const { lineNumber, isCollapsed } = customEvent.detail;
+            this.toggleListCollapse(editor, lineNumber, isCollapsed);
         });
 
         // Add handler for code block collapse toggle
         contentContainer.addEventListener('toggleCodeBlockCollapse', (event: Event) => {
             const customEvent = event as CustomEvent;
             const { target, isCollapsed } = customEvent.detail;
-            
-            console.log('Toggle code block collapse event:', { isCollapsed });
-            
-            // Find the block index by counting code blocks before this one
-            const text = editor.state.doc.toString();
-            const codeBlockRegex = /```(\w*)\n?([\s\S]*?)\n?```/g;
-            const allCodeBlocks = contentContainer.querySelectorAll('.code-block-widget-container');
-            const clickedIndex = Array.from(allCodeBlocks).indexOf(target);
-            
-            if (clickedIndex !== -1) {
-                console.log('Toggling code block', clickedIndex, 'to collapsed:', !isCollapsed);
-                
-                // Dispatch the state effect to toggle collapse
+            const block = this.getCodeBlockAt(editor, target);
+            if (block) {
                 editor.dispatch({
                     effects: toggleCodeBlockEffect.of({
-                        blockIndex: clickedIndex,
+                        key: getCodeBlockKey(block),
                         isCollapsed: !isCollapsed
                     })
                 });
@@ -2232,21 +3713,22 @@ export class SurveyNoteView extends ItemView {
         // Add handler for checkbox toggle
         contentContainer.addEventListener('toggleCheckbox', (event: Event) => {
             const customEvent = event as CustomEvent;
-            const { lineNumber, isChecked } = customEvent.detail;
-            
-            console.log('Toggle checkbox event:', { lineNumber, isChecked });
+            const { lineNumber } = customEvent.detail;
             
             // Toggle the checkbox state by manipulating the document
-            this.toggleCheckbox(editor, lineNumber, isChecked);
+            this.toggleCheckbox(editor, lineNumber);
         });
 
-        // Add handler for image size updates
-        document.addEventListener('updateImageSize', (event: Event) => {
+        // Add handler for image size, alignment and caption updates
+        contentContainer.addEventListener('updateImageOptions', (event: Event) => {
             const customEvent = event as CustomEvent;
-            const { imagePath, altText, width, height } = customEvent.detail;
-            
-            // Update the markdown text with new image dimensions
-            this.updateImageInMarkdown(editor, imagePath, altText, width, height);
+            const { target, imagePath, options } = customEvent.detail;
+            this.updateImageOptions(editor, editor.posAtDOM(target), imagePath, options);
+        });
+
+        // Show page previews when hovering internal links
+        this.registerDomEvent(contentContainer, 'mouseover', (event) => {
+            this.onLinkHover(event);
         });
 
         // Add click handler for links
@@ -2263,13 +3745,10 @@ export class SurveyNoteView extends ItemView {
             
             if (linkElement) {
                 const linkType = linkElement.getAttribute('data-link-type');
-                console.log('Link type:', linkType);
                 
                 if (linkType === 'internal') {
                     const filename = linkElement.getAttribute('data-filename');
-                    console.log('Filename from data attribute:', filename);
                     if (filename) {
-                        console.log('Internal link clicked via DOM event:', filename);
                         event.preventDefault();
                         event.stopPropagation();
                         this.openInternalLink(filename);
@@ -2277,7 +3756,17 @@ export class SurveyNoteView extends ItemView {
                 }
                 return;
             }
-            
+
+            // Internal links rendered inside embedded notes
+            const renderedLink = target.closest('.transclusion-content a.internal-link');
+            const href = renderedLink?.getAttribute('data-href');
+            if (href) {
+                event.preventDefault();
+                event.stopPropagation();
+                this.openInternalLink(href);
+                return;
+            }
+
             // Check for URL links
             let urlElement: HTMLElement | null = null;
             if (target.classList.contains('url-link-mark')) {
@@ -2288,9 +3777,7 @@ export class SurveyNoteView extends ItemView {
             
             if (urlElement) {
                 const url = urlElement.getAttribute('data-url');
-                console.log('URL from data attribute:', url);
                 if (url) {
-                    console.log('URL link clicked via DOM event:', url);
                     event.preventDefault();
                     event.stopPropagation();
                     this.openUrl(url);
@@ -2308,9 +3795,7 @@ export class SurveyNoteView extends ItemView {
             
             if (markdownElement) {
                 const url = markdownElement.getAttribute('data-url');
-                console.log('Markdown link URL from data attribute:', url);
                 if (url) {
-                    console.log('Markdown link clicked via DOM event:', url);
                     event.preventDefault();
                     event.stopPropagation();
                     this.openUrl(url);
@@ -2344,238 +3829,288 @@ export class SurveyNoteView extends ItemView {
             const files = event.dataTransfer?.files;
             if (files && files.length > 0) {
                 for (const file of Array.from(files)) {
-                    if (file.type.startsWith("image/")) {
-                        this.handleImageDrop(file, editor, title);
+                    if (/^(image|audio|video)\//.test(file.type) || file.type === 'application/pdf') {
+                        this.handleAttachmentDrop(file, editor, title);
                     }
                 }
             }
         });
+
+        // Paste screenshots and other clipboard images as attachments. Runs before
+        // the editor's own paste handling; clipboard text is pasted as usual.
+        this.registerDomEvent(contentContainer, 'paste', (event) => {
+            const clipboard = event.clipboardData;
+            if (!clipboard || clipboard.getData('text/plain')) return;
+            const images = Array.from(clipboard.files).filter(file => file.type.startsWith('image/'));
+            if (images.length === 0) return;
+            event.preventDefault();
+            event.stopPropagation();
+            // One at a time, so that each gets its own available file name
+            images.reduce((previous, image) => previous.then(() => this.handleImagePaste(image, editor, title)), Promise.resolve());
+        }, true);
+
+        return itemEl;
     }
 
-    private async openInternalLink(filename: string) {
-        console.log('Opening internal link:', filename);
-        const targetFile = this.plugin.app.vault.getAbstractFileByPath(filename + '.md') || 
-                          this.plugin.app.metadataCache.getFirstLinkpathDest(filename, '');
-        
-        console.log('Target file found:', !!targetFile, targetFile?.path);
-        
-        if (targetFile instanceof TFile) {
-            const leaf = this.plugin.app.workspace.getUnpinnedLeaf();
-            console.log('Opening file in leaf');
-            await leaf.openFile(targetFile);
-        } else {
-            console.log('File not found:', filename);
-            new Notice(`File "${filename}" not found.`);
+    /**
+     * Open an internal link target (`Note`, `Note#Heading`, `Note#^block`).
+     * Survey notes open in SurveyNote view with the section editor that contains
+     * the heading or block focused; other files open scrolled to the subpath.
+     */
+    private async openInternalLink(linkTarget: string) {
+        const { path, subpath } = parseInternalLink(linkTarget);
+        const sourcePath = this.file?.path ?? '';
+        const targetFile = path
+            ? this.plugin.app.vault.getAbstractFileByPath(path + '.md') ||
+              this.plugin.app.metadataCache.getFirstLinkpathDest(path, sourcePath)
+            : this.file;
+
+        if (!(targetFile instanceof TFile)) {
+            new Notice(`File "${path}" not found.`);
+            return;
+        }
+
+        if (targetFile === this.file) {
+            this.revealSubpath(subpath);
+            return;
+        }
+
+        const leaf = this.plugin.app.workspace.getUnpinnedLeaf();
+        const frontmatter = this.plugin.app.metadataCache.getFileCache(targetFile)?.frontmatter;
+        if (frontmatter?.['survey-note-view']) {
+            await leaf.setViewState({
+                type: VIEW_TYPE_SURVEYNOTE,
+                state: { file: targetFile.path },
+                active: true,
+            });
+            if (leaf.view instanceof SurveyNoteView) {
+                leaf.view.revealSubpath(subpath);
+            }
+            return;
         }
+
+        await leaf.openFile(targetFile, subpath ? { eState: { subpath } } : undefined);
     }
 
-    private openUrl(url: string) {
-        console.log('Opening URL in browser:', url);
-        window.open(url, '_blank');
+    /**
+     * Focus the section editor that contains a heading or block
+     * (a heading that names a section focuses the start of that section)
+     */
+    revealSubpath(subpath: string) {
+        if (!subpath) return;
+
+        const sections = getOrderedSections(this.getSections());
+        const headings = subpath.split('#').filter(part => part !== '');
+        const heading = subpath.startsWith('#^') ? undefined : headings[headings.length - 1];
+
+        let target: { name: string, line: number } | undefined;
+        const section = heading && sections.find(section => stripHeading(section.name) === stripHeading(heading));
+        if (section) {
+            target = { name: section.name, line: 0 };
+        } else {
+            for (const section of sections) {
+                const line = findSubpathLine(this.editorData[section.name] ?? '', subpath);
+                if (line !== -1) {
+                    target = { name: section.name, line };
+                    break;
+                }
+            }
+        }
+
+        const editor = target && this.editors[target.name];
+        if (!target || !editor) {
+            new Notice(`"${subpath.replace(/^#/, '')}" not found.`);
+            return;
+        }
+
+        const pos = editor.state.doc.line(Math.min(target.line + 1, editor.state.doc.lines)).from;
+        this.gridItems[target.name]?.scrollIntoView({ block: 'nearest' });
+        editor.focus();
+        editor.dispatch({
+            selection: { anchor: pos },
+            effects: EditorView.scrollIntoView(pos, { y: 'center' })
+        });
     }
 
-    private toggleListCollapse(editor: EditorView, lineNumber: number, isCollapsed: boolean, indent: string) {
-        const doc = editor.state.doc;
-        const lines = doc.toString().split('\n');
-        
-        if (lineNumber >= lines.length) {
-            console.log('toggleListCollapse: Invalid line number', lineNumber, 'total lines:', lines.length);
+    /**
+     * Show a page preview for the internal link under the mouse.
+     * Survey notes get a compact preview of their Purpose and Summary sections;
+     * other targets use the Page preview plugin through the `hover-link` event.
+     */
+    private onLinkHover(event: MouseEvent) {
+        const linkElement = (event.target as HTMLElement).closest('[data-link-type="internal"]') as HTMLElement | null;
+        const linkTarget = linkElement?.getAttribute('data-filename');
+        if (!linkElement || !linkTarget || !this.file) return;
+        // Moving between children of the same link is not a new hover
+        if (event.relatedTarget instanceof Node && linkElement.contains(event.relatedTarget)) return;
+
+        const { path } = parseInternalLink(linkTarget);
+        const file = path ? this.app.metadataCache.getFirstLinkpathDest(path, this.file.path) : this.file;
+        if (file && this.app.metadataCache.getFileCache(file)?.frontmatter?.['survey-note-view']) {
+            if (this.isHoverPreviewTriggered(event)) {
+                this.showSurveyNotePreview(linkElement, file);
+            }
             return;
         }
-        
-        const newCollapsedState = !isCollapsed;
-        
-        console.log('toggleListCollapse: Toggling collapse for line', lineNumber, 'from', isCollapsed, 'to', newCollapsedState);
-        console.log('toggleListCollapse: Current line:', `"${lines[lineNumber]}"`);
-        
-        // Parse the current indent level of the parent item
-        const parentLine = lines[lineNumber];
-        const parentIndentMatch = parentLine.match(/^(\s*)/);
-        const parentIndentLevel = parentIndentMatch ? parentIndentMatch[1].length : 0;
-        
-        console.log('toggleListCollapse: Parent indent level:', parentIndentLevel);
-        
-        // Find all child items that need to be toggled
-        const changes = [];
-        let lineStart = 0;
-        
-        // Calculate line positions and collect changes
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const lineEnd = lineStart + line.length;
-            
-            if (i === lineNumber) {
-                // Update parent line with collapsed marker
-                let newLineContent: string;
-                if (newCollapsedState) {
-                    // Add collapsed marker if not already present
-                    if (!line.includes('<!--COLLAPSED-->')) {
-                        newLineContent = line + '<!--COLLAPSED-->';
-                        console.log('toggleListCollapse: Adding COLLAPSED marker to parent');
-                    } else {
-                        console.log('toggleListCollapse: COLLAPSED marker already present on parent');
-                        newLineContent = line;
-                    }
-                } else {
-                    // Remove collapsed marker from parent
-                    newLineContent = line.replace(/<!--COLLAPSED-->/g, '');
-                    console.log('toggleListCollapse: Removing COLLAPSED marker from parent');
-                }
-                
-                changes.push({
-                    from: lineStart,
-                    to: lineEnd,
-                    insert: newLineContent
-                });
-            } else if (i > lineNumber) {
-                // Check if this is a child item of the collapsed parent
-                const lineIndentMatch = line.match(/^(\s*)([-*]\s+|.*)/);
-                if (lineIndentMatch) {
-                    const lineIndentLevel = lineIndentMatch[1].length;
-                    const restOfLine = lineIndentMatch[2];
-                    
-                    // If indentation is greater than parent, it's a child
-                    if (lineIndentLevel > parentIndentLevel && restOfLine.trim().length > 0) {
-                        // Check if we've reached the next sibling or parent (same or lesser indentation)
-                        let isChild = true;
-                        
-                        // Look ahead to see if there's a list item at same or lesser indentation
-                        const nextListItemMatch = restOfLine.match(/^([-*]\s+)/);
-                        if (nextListItemMatch && lineIndentLevel <= parentIndentLevel) {
-                            isChild = false;
-                        }
-                        
-                        if (isChild) {
-                            let newChildContent: string;
-                            if (newCollapsedState) {
-                                // Add HIDDEN marker if not already present
-                                if (!line.includes('<!--HIDDEN-->')) {
-                                    newChildContent = line + '<!--HIDDEN-->';
-                                    console.log('toggleListCollapse: Adding HIDDEN marker to child line', i);
-                                } else {
-                                    newChildContent = line;
-                                }
-                            } else {
-                                // Remove HIDDEN marker
-                                newChildContent = line.replace(/<!--HIDDEN-->/g, '');
-                                console.log('toggleListCollapse: Removing HIDDEN marker from child line', i);
-                            }
-                            
-                            changes.push({
-                                from: lineStart,
-                                to: lineEnd,
-                                insert: newChildContent
-                            });
-                        }
-                    } else if (lineIndentLevel <= parentIndentLevel && restOfLine.match(/^[-*]\s+/)) {
-                        // Found next sibling or parent item, stop processing children
-                        console.log('toggleListCollapse: Found next sibling/parent at line', i, 'stopping child processing');
-                        break;
-                    }
-                }
+
+        this.app.workspace.trigger('hover-link', {
+            event,
+            source: VIEW_TYPE_SURVEYNOTE,
+            hoverParent: this,
+            targetEl: linkElement,
+            linktext: linkTarget,
+            sourcePath: this.file.path,
+        });
+    }
+
+    /**
+     * Whether a hover should open a preview, following the Page preview
+     * plugin's setting for SurveyNote (Mod key required by default)
+     */
+    private isHoverPreviewTriggered(event: MouseEvent): boolean {
+        const pagePreview = (this.app as InternalPluginsApp).internalPlugins?.getPluginById?.('page-preview');
+        if (!pagePreview?.enabled) return false;
+        const requireMod = pagePreview.instance?.overrides?.[VIEW_TYPE_SURVEYNOTE] ?? true;
+        return !requireMod || !!Keymap.isModEvent(event);
+    }
+
+    private async showSurveyNotePreview(targetEl: HTMLElement, file: TFile) {
+        const popover = new HoverPopover(this, targetEl, 300);
+        popover.hoverEl.addClass('surveynote-hover-preview');
+
+        const sections = getNoteSections(this.plugin, file);
+        // Notes without Purpose / Summary show their first row instead
+        let previewSections = sections.filter(section => PREVIEW_SECTIONS.includes(section.name));
+        if (previewSections.length === 0 && sections.length > 0) {
+            previewSections = sections.filter(section => section.row === sections[0].row);
+        }
+
+        const content = await this.app.vault.cachedRead(file);
+        const contents = getSectionContents(parseNote(content, sections.map(section => section.name)));
+
+        popover.hoverEl.createDiv({ cls: 'surveynote-hover-title', text: file.basename });
+        for (const section of previewSections) {
+            const sectionEl = popover.hoverEl.createDiv({ cls: 'surveynote-hover-section' });
+            sectionEl.createDiv({ cls: 'surveynote-hover-section-name', text: section.name });
+            const bodyEl = sectionEl.createDiv({ cls: 'surveynote-hover-section-body markdown-rendered' });
+            const text = contents[section.name]?.trim();
+            if (text) {
+                await MarkdownRenderer.render(this.app, text, bodyEl, file.path, popover);
+            } else {
+                bodyEl.addClass('is-empty');
+                bodyEl.setText('—');
             }
-            
-            lineStart = lineEnd + 1; // +1 for newline character
         }
-        
-        console.log('toggleListCollapse: Applying', changes.length, 'changes');
-        
-        // Apply all changes in a single transaction
-        if (changes.length > 0) {
-            editor.dispatch({
-                changes: changes,
-                userEvent: "select.pointer"
-            });
-            
-            console.log('toggleListCollapse: Document updated successfully with', changes.length, 'changes');
+    }
+
+    private openUrl(url: string) {
+        window.open(url, '_blank');
+    }
+
+    /**
+     * Fold or unfold a list item. The text is not changed: the fold state is
+     * kept by the editor and stored in plugin data.
+     */
+    private toggleListCollapse(editor: EditorView, lineNumber: number, isCollapsed: boolean) {
+        if (lineNumber >= editor.state.doc.lines) {
+            return;
         }
+        editor.dispatch({
+            effects: toggleListFoldEffect.of({ pos: editor.state.doc.line(lineNumber + 1).from, isCollapsed: !isCollapsed })
+        });
     }
 
-    private toggleCheckbox(editor: EditorView, lineNumber: number, isChecked: boolean) {
+    /**
+     * Move a checkbox to the next state of the task cycle setting and, unless
+     * turned off in the settings, propagate the completion to its parents
+     */
+    private toggleCheckbox(editor: EditorView, lineNumber: number) {
         const doc = editor.state.doc;
         const lines = doc.toString().split('\n');
         
         if (lineNumber >= lines.length) {
-            console.log('toggleCheckbox: Invalid line number', lineNumber, 'total lines:', lines.length);
             return;
         }
         
         const line = lines[lineNumber];
-        console.log('toggleCheckbox: Toggling checkbox for line', lineNumber, `"${line}"`);
         
         // Find the checkbox pattern in the line
-        const checkboxMatch = line.match(/^(\s*)- (\[[ x]\]) (.*)$/);
+        const checkboxMatch = line.match(TASK_LINE_REGEX);
         if (!checkboxMatch) {
-            console.log('toggleCheckbox: No checkbox pattern found in line');
             return;
         }
         
-        const indent = checkboxMatch[1];
-        const currentState = checkboxMatch[2];
-        const content = checkboxMatch[3];
-        
-        // Toggle the checkbox state
-        const newState = isChecked ? '[ ]' : '[x]';
-        const newLineContent = `${indent}- ${newState} ${content}`;
-        
-        console.log('toggleCheckbox: Changing from', `"${currentState}"`, 'to', `"${newState}"`);
-        
-        // Calculate line positions
-        let lineStart = 0;
-        for (let i = 0; i < lineNumber; i++) {
-            lineStart += lines[i].length + 1; // +1 for newline character
-        }
-        const lineEnd = lineStart + line.length;
+        // Move to the next state, then check or uncheck the parents it completes
+        const nextSymbol = getNextTaskSymbol(checkboxMatch[2], parseTaskCycle(this.plugin.settings.taskCycle));
+        const today = moment().format('YYYY-MM-DD');
+        const updates = applyTaskSymbol(lines, lineNumber, nextSymbol, today, this.plugin.settings.taskPropagation);
         
         // Apply the change
         editor.dispatch({
-            changes: {
-                from: lineStart,
-                to: lineEnd,
-                insert: newLineContent
-            },
+            changes: [...updates].sort(([a], [b]) => a - b).map(([index, insert]) => {
+                const { from, to } = doc.line(index + 1);
+                return { from, to, insert };
+            }),
             userEvent: "select.pointer"
         });
         
-        console.log('toggleCheckbox: Checkbox toggled successfully');
     }
 
-    private async handleImageDrop(file: File, view: EditorView, title: string) {
+    /**
+     * Save a dropped image, PDF, audio or video file next to the note and
+     * embed it at the cursor
+     */
+    private async handleAttachmentDrop(file: File, view: EditorView, title: string) {
         try {
-            const arrayBuffer = await file.arrayBuffer();
-            const newFileParent = this.app.fileManager.getNewFileParent(this.file.path);
             const extension = file.name.split('.').pop() || 'png';
             const baseName = file.name.replace(/\.[^/.]+$/, '');
-            
-            let filePath: string;
-            let counter = 0;
             const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+            await this.insertAttachment(view, title, await file.arrayBuffer(), `${baseName}-${timestamp}.${extension}`);
+        } catch (error) {
+            console.error('Error handling attachment drop:', error);
+            new Notice('ファイルの保存に失敗しました: ' + error.message);
+        }
+    }
 
-            do {
-                const suffix = counter === 0 ? '' : `-${counter}`;
-                const filename = `${baseName}-${timestamp}${suffix}.${extension}`;
-                filePath = `${newFileParent.path}/${filename}`;
-                counter++;
-            } while (await this.app.vault.adapter.exists(filePath));
-
-            const createdFile = await this.app.vault.createBinary(filePath, arrayBuffer);
-            const markdownLink = this.app.fileManager.generateMarkdownLink(createdFile, this.file.path);
-
-            const { from, to } = view.state.selection.main;
-            view.dispatch({
-                changes: { from, to, insert: `\n${markdownLink}\n` }
-            });
-
-            this.editorData[title] = view.state.doc.toString();
-            await this.saveMarkdown();
-            
+    /**
+     * Save an image pasted from the clipboard, named like Obsidian's
+     * `Pasted image 20240101120000.png`, and embed it at the cursor
+     */
+    private async handleImagePaste(file: File, view: EditorView, title: string) {
+        try {
+            const extension = PASTED_IMAGE_EXTENSIONS[file.type] ?? file.type.replace(/^image\//, '');
+            const filename = `Pasted image ${moment().format('YYYYMMDDHHmmss')}.${extension}`;
+            await this.insertAttachment(view, title, await file.arrayBuffer(), filename);
         } catch (error) {
-            console.error('Error handling image drop:', error);
+            console.error('Error handling image paste:', error);
             new Notice('画像の保存に失敗しました: ' + error.message);
         }
     }
 
-    private async createNewSurveyNote() {
+    /**
+     * Create an attachment where Obsidian's "Default location for new
+     * attachments" setting puts it and embed it at the cursor as one undo step
+     */
+    private async insertAttachment(view: EditorView, title: string, data: ArrayBuffer, filename: string) {
+        const filePath = await this.app.fileManager.getAvailablePathForAttachment(filename, this.file.path);
+        const createdFile = await this.app.vault.createBinary(filePath, data);
+        const link = this.app.fileManager.generateMarkdownLink(createdFile, this.file.path);
+        const markdownLink = link.startsWith('!') ? link : `!${link}`;
+
+        // The file is saved asynchronously, so insert at the cursor as it is now
+        const { from, to } = view.state.selection.main;
+        const insert = `\n${markdownLink}\n`;
+        view.dispatch({
+            changes: { from, to, insert },
+            selection: { anchor: from + insert.length },
+            userEvent: 'input.paste'
+        });
+
+        this.editorData[title] = view.state.doc.toString();
+        await this.saveMarkdown();
+    }
+
+    private async createNewSurveyNote(template: NoteTemplate) {
         try {
             // Get current file's directory
             const currentDirectory = this.file?.parent;
@@ -2600,26 +4135,8 @@ export class SurveyNoteView extends ItemView {
                 filePath = `${currentDirectory.path}/${filename}`;
             }
 
-            // Create content with frontmatter
-            const content = `---
-survey-note-view: note
----
-
-# Purpose
-
-
-# Summary
-
-
-# Content1
-
-
-# Content2
-
-
-# Content3
-
-`;
+            // Create content with frontmatter and the template's sections
+            const content = buildTemplateContent(template);
 
             // Create the new file
             const newFile = await this.app.vault.create(filePath, content);
@@ -2642,71 +4159,39 @@ survey-note-view: note
     }
 
     /**
-     * Update image dimensions in markdown text
+     * Rewrite the options of the image at `pos` (for a line of several images,
+     * the first one on the line with that path), keeping its path and alt text:
+     * `![[image.png|300x200|center]]` or `![alt](image.png|300x200|center)`
      */
-    private updateImageInMarkdown(editor: EditorView, imagePath: string, altText: string, width: number, height: number) {
-        const currentText = editor.state.doc.toString();
-        
-        // Patterns to match various image formats
-        const internalImagePattern = new RegExp(`!\\[\\[${imagePath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:\\|[^\\]]*)?\\]\\]`, 'g');
-        const markdownImagePattern = new RegExp(`!\\[${altText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\]\\(${imagePath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:\\|[^)]*)?\\)`, 'g');
-        
-        let updatedText = currentText;
-        let wasUpdated = false;
-        
-        // Update internal image format: ![[image.png|200x300|center]]
-        updatedText = updatedText.replace(internalImagePattern, (match) => {
-            wasUpdated = true;
-            
-            // Check if dimensions already exist
-            if (match.includes('|')) {
-                // Remove existing size/alignment info and add new one
-                const baseMatch = match.match(/^!\[\[([^\]|]+)/);
-                if (baseMatch) {
-                    const baseImagePath = baseMatch[1];
-                    const newFormat = `![[${baseImagePath}|${width}x${height}]]`;
-                    return newFormat;
+    private updateImageOptions(editor: EditorView, pos: number, imagePath: string, options: ImageOptions) {
+        const state = editor.state;
+        const line = state.doc.lineAt(pos);
+        const changes: Array<{ from: number, to: number, insert: string }> = [];
+        getSyntaxTree(state).iterate({
+            from: pos,
+            to: line.to,
+            enter: (node) => {
+                if (changes.length > 0 || node.from < pos) return;
+                if (node.name === 'Embed') {
+                    const path = state.sliceDoc(node.from + 3, node.to - 2).split('|')[0];
+                    if (path === imagePath) {
+                        changes.push({ from: node.from + 3, to: node.to - 2, insert: path + formatImageOptions(options) });
+                    }
+                    return false;
                 }
-            } else {
-                // Add dimensions to image without existing formatting
-                const baseMatch = match.match(/^!\[\[([^\]]+)\]\]$/);
-                if (baseMatch) {
-                    const baseImagePath = baseMatch[1];
-                    const newFormat = `![[${baseImagePath}|${width}x${height}]]`;
-                    return newFormat;
+                if (node.name === 'Image') {
+                    const url = node.node.getChild('URL');
+                    const path = url ? state.sliceDoc(url.from, url.to).split('|')[0] : null;
+                    if (url && path === imagePath) {
+                        changes.push({ from: url.from, to: url.to, insert: path + formatImageOptions(options) });
+                    }
+                    return false;
                 }
             }
-            return match;
-        });
-        
-        // Update markdown image format: ![alt](image.png|200x300|center)
-        updatedText = updatedText.replace(markdownImagePattern, (match) => {
-            wasUpdated = true;
-            
-            // Parse the existing format
-            const markdownMatch = match.match(/^!\[([^\]]*)\]\(([^)]+)\)$/);
-            if (markdownMatch) {
-                const altText = markdownMatch[1];
-                const pathPart = markdownMatch[2];
-                
-                // Extract base path (remove existing size/alignment)
-                const basePath = pathPart.split('|')[0];
-                
-                const newFormat = `![${altText}](${basePath}|${width}x${height})`;
-                return newFormat;
-            }
-            return match;
         });
-        
-        if (wasUpdated) {
-            // Update the editor content
-            editor.dispatch({
-                changes: {
-                    from: 0,
-                    to: editor.state.doc.length,
-                    insert: updatedText
-                }
-            });
+
+        if (changes.length > 0) {
+            editor.dispatch({ changes: changes[0], userEvent: 'input' });
         }
     }
 }